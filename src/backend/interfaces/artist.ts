@@ -24,6 +24,16 @@ export interface ArtistEntity {
   hasFavicon: boolean;
 }
 
+export interface ArtistProfileDto {
+  id: string;
+  name: string;
+  type: string;
+  website?: string;
+  bio?: string;
+  avatarUrl?: string;
+  logoUrl?: string;
+}
+
 export interface ArtistApiDto {
   id: string;
   name: string;
@@ -0,0 +1,70 @@
+export interface ShopifyCredentials {
+  storeDomain: string;
+  publicAccessToken: string;
+  apiVersion: string;
+  apiUrl?: string;
+}
+
+export interface Money {
+  amount: number;
+  currencyCode: string;
+}
+
+export interface CartLineInput {
+  merchandiseId: string;
+  quantity: number;
+}
+
+export interface CartLineEntity {
+  id: string;
+  quantity: number;
+  merchandiseId: string;
+  title: string;
+  variantTitle: string;
+  image?: string;
+  price: Money;
+  total: Money;
+}
+
+export interface CartEntity {
+  id: string;
+  checkoutUrl: string;
+  totalQuantity: number;
+  subtotal: Money;
+  total: Money;
+  lines: CartLineEntity[];
+}
+
+interface StorefrontMoney {
+  amount: string;
+  currencyCode: string;
+}
+
+export interface StorefrontCart {
+  id: string;
+  checkoutUrl: string;
+  totalQuantity: number;
+  cost: {
+    subtotalAmount: StorefrontMoney;
+    totalAmount: StorefrontMoney;
+  };
+  lines: {
+    nodes: {
+      id: string;
+      quantity: number;
+      cost: { totalAmount: StorefrontMoney };
+      merchandise: {
+        id: string;
+        title: string;
+        image: { url: string } | null;
+        price: StorefrontMoney;
+        product: { title: string };
+      };
+    }[];
+  };
+}
+
+export interface StorefrontUserError {
+  field: string[] | null;
+  message: string;
+}
@@ -0,0 +1,5 @@
+export interface CategoryEntity {
+  slug: string;
+  name: string;
+  productCount: number;
+}
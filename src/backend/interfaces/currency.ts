@@ -0,0 +1,15 @@
+export interface CurrencyRateRow {
+  currency: string;
+  rate: number;
+  base: string;
+  updatedAt: string;
+}
+
+export interface CurrencyRateTable {
+  base: string;
+  rates: Record<string, number>;
+}
+
+export interface CurrencyRates extends CurrencyRateTable {
+  updatedAt: string;
+}
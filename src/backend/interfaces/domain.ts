@@ -0,0 +1,22 @@
+import { ArtistEntity } from './artist';
+import { ShopEntity } from './shop';
+
+export interface DomainRow {
+  hostname: string;
+  shopId: string;
+  artistId: string;
+  isCanonical: number;
+}
+
+export interface DomainEntity {
+  hostname: string;
+  shopId: string;
+  artistId: string;
+  isCanonical: boolean;
+}
+
+export interface Storefront {
+  artist: ArtistEntity;
+  shop: ShopEntity;
+  baseUrl: string;
+}
@@ -0,0 +1,18 @@
+/** Rows for images that never loaded only carry `failedAt`. */
+export interface ImageMetaRow {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string | null;
+  type: string | null;
+  width: number | null;
+  height: number | null;
+  fetchedAt: string | null;
+  failedAt: string | null;
+}
+
+export interface ImageMeta {
+  type: string;
+  width: number;
+  height: number;
+}
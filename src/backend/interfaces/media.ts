@@ -0,0 +1,20 @@
+export type MediaKind = 'avatar' | 'logo' | 'favicon' | 'shop';
+
+export interface MediaRow {
+  ownerId: string;
+  kind: MediaKind;
+  artistId: string;
+  file: string;
+  type: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+}
+
+export interface StoredMedia {
+  file: string;
+  type: string;
+  size: number;
+  width?: number;
+  height?: number;
+}
@@ -0,0 +1,61 @@
+export interface FeedItem {
+  id: string;
+  groupId: string;
+  title: string;
+  description: string;
+  link: string;
+  image: string;
+  price: number;
+  currency: string;
+  availability: string;
+  productType: string;
+}
+
+export interface ParsedPrice {
+  amount: number;
+  currency: string;
+}
+
+export interface ProductRow {
+  shopId: string;
+  groupId: string;
+  title: string;
+  description: string | null;
+  productType: string;
+  position: number;
+  syncedAt: string | null;
+  firstSeenAt: string | null;
+}
+
+export interface VariantRow {
+  shopId: string;
+  id: string;
+  groupId: string;
+  title: string;
+  link: string | null;
+  image: string | null;
+  price: number;
+  currency: string | null;
+  availability: string | null;
+  position: number;
+}
+
+export interface VariantEntity {
+  id: string;
+  title: string;
+  link: string;
+  image: string;
+  price: number;
+  currency: string;
+  availability?: string;
+}
+
+export interface ProductEntity {
+  groupId: string;
+  title: string;
+  description?: string;
+  productType: string;
+  syncedAt?: string;
+  firstSeenAt?: string;
+  variants: VariantEntity[];
+}
@@ -1,3 +1,5 @@
+import { ShopTheme } from './theme';
+
 export interface Shop {
   id: string;
   artistId: string;
@@ -14,6 +16,11 @@ export interface ShopRow {
   website: string;
   hasImage: number;
   shopFeed: string;
+  syncedAt: string | null;
+  canonicalDomain: string | null;
+  currency: string | null;
+  locale: string | null;
+  theme: string | null;
 }
 
 export interface ShopEntity {
@@ -23,6 +30,11 @@ export interface ShopEntity {
   website: string;
   hasImage: boolean;
   shopFeed: string;
+  syncedAt?: string;
+  canonicalDomain?: string;
+  currency: string;
+  locale: string;
+  theme: ShopTheme;
 }
 
 export interface ShopApiDto {
@@ -32,4 +44,9 @@ export interface ShopApiDto {
   imageDataUri?: string;
   artistId: string;
   shopFeed: string;
+  domainAliases?: string[];
+  canonicalDomain?: string;
+  currency?: string;
+  locale?: string;
+  theme?: Partial<ShopTheme>;
 }
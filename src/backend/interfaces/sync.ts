@@ -0,0 +1,87 @@
+import { ArtistApiDto } from './artist';
+import { ShopApiDto } from './shop';
+import { SocialApiDto } from './social';
+import { LatestReleasesApiDto } from './latest-releases';
+import { FeedItem } from './product';
+
+export type SyncStatus = 'success' | 'partial' | 'failed' | 'skipped';
+
+export interface ArtistSnapshot {
+  artist: ArtistApiDto;
+  socials: SocialApiDto[];
+  shop?: ShopApiDto;
+  releases?: LatestReleasesApiDto;
+  feedItems: FeedItem[];
+  hash: string;
+}
+
+export interface SyncError {
+  artistId?: string;
+  artistName?: string;
+  message: string;
+}
+
+export interface SyncDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface SyncRunRow {
+  id: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: SyncStatus;
+  scope: string | null;
+  artistCount: number;
+  added: string | null;
+  removed: string | null;
+  changed: string | null;
+  errors: string | null;
+}
+
+export interface SyncRunEntity {
+  id: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  status: SyncStatus;
+  /** 'all' for a full sync, otherwise the id of the single synced artist. */
+  scope: string;
+  artistCount: number;
+  diff: SyncDiff;
+  errors: SyncError[];
+}
+
+/**
+ * Paginated list envelope. Plain arrays are still accepted and treated as
+ * the only page.
+ */
+export interface PaginatedApiDto<T> {
+  data: T[];
+  page?: number;
+  totalPages?: number;
+  nextCursor?: string | null;
+}
+
+export interface SyncProgress {
+  scope: string;
+  startedAt: string;
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export interface DataFreshness {
+  /** True until a full sync succeeds after startup, and after one fails. */
+  stale: boolean;
+  initialSyncPending: boolean;
+  lastFullSyncStatus: SyncStatus | null;
+}
+
+export interface ArtistSnapshotRow {
+  artistId: string;
+  hash: string;
+  syncedAt: string;
+}
@@ -0,0 +1,15 @@
+export type ThemeMode = 'light' | 'dark';
+
+export type LogoPlacement = 'none' | 'header' | 'banner';
+
+export interface ShopTheme {
+  mode: ThemeMode;
+  primaryColor: string;
+  secondaryColor: string;
+  footerColor: string;
+  fontFamily: string;
+  headingFontFamily?: string;
+  // Stylesheet that loads the fonts above, e.g. a Google Fonts URL
+  fontStylesheetUrl?: string;
+  logoPlacement: LogoPlacement;
+}
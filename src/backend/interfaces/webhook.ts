@@ -0,0 +1,12 @@
+export type CatalogWebhookEvent =
+  | 'artist.updated'
+  | 'artist.deleted'
+  | 'shop.updated'
+  | 'social.updated'
+  | 'release.updated';
+
+export interface CatalogWebhookPayload {
+  event?: CatalogWebhookEvent;
+  artistId?: string;
+  shopId?: string;
+}
@@ -0,0 +1,94 @@
+import { Messages } from './en';
+
+export const de: Messages = {
+  // 🧭 Common
+  'common.backToShop': '← Zurück zum Shop',
+  'common.language': 'Sprache',
+
+  // 🏠 Home
+  'home.bannerTitle': '{shop} Shop',
+  'home.bannerSubtitle':
+    'Entdecke exklusives Künstler-Merch und unterstütze deine Lieblingsmusik!',
+  'home.productsTitle': 'Produkte',
+  'home.productsSubtitle': 'Entdecke die exklusive Kollektion von {shop}',
+  'home.favoriteArtist': 'deinem Lieblingskünstler',
+  'home.aboutLink': 'Über den Künstler',
+  'home.noMatches': 'Keine Produkte entsprechen deinen Filtern.',
+
+  // 🎛️ Filters
+  'filters.search': 'Produkte suchen',
+  'filters.sortBy': 'Sortieren nach',
+  'filters.clear': 'Filter zurücksetzen',
+  'filters.price': 'Preis: {min} – {max}',
+  'filters.minPrice': 'Mindestpreis',
+  'filters.maxPrice': 'Höchstpreis',
+  'sort.featured': 'Empfohlen',
+  'sort.newest': 'Neueste',
+  'sort.priceAsc': 'Preis: aufsteigend',
+  'sort.priceDesc': 'Preis: absteigend',
+  'sort.title': 'Titel',
+
+  // 🛍️ Products
+  'product.addToCart': 'In den Warenkorb',
+  'product.buyNow': 'Jetzt kaufen',
+  'product.outOfStock': 'Ausverkauft',
+  'product.chooseOptions': 'Optionen wählen',
+
+  // 🗂️ Categories
+  'category.all': 'Alle Produkte',
+  'category.nav': 'Produktkategorien',
+  'category.count.one': '{count} Produkt',
+  'category.count.other': '{count} Produkte',
+
+  // 🛒 Cart
+  'cart.open': 'Warenkorb öffnen',
+  'cart.title': 'Dein Warenkorb',
+  'cart.empty': 'Dein Warenkorb ist leer.',
+  'cart.decrease': 'Menge verringern',
+  'cart.increase': 'Menge erhöhen',
+  'cart.remove': 'Artikel entfernen',
+  'cart.subtotal': 'Zwischensumme',
+  'cart.checkout': 'Zur Kasse',
+  'cart.added': 'Zum Warenkorb hinzugefügt',
+  'cart.updateFailed': 'Warenkorb konnte nicht aktualisiert werden',
+
+  // 🎤 About
+  'about.logoAlt': '{name} Logo',
+  'about.comingSoon': 'Mehr über {name} folgt in Kürze.',
+  'about.visitWebsite': '{website} besuchen',
+
+  // 🎵 Music
+  'music.title': 'Neue Musik',
+  'music.subtitle': 'Hör dir die neuesten Veröffentlichungen an',
+  'music.newOnSpotify': 'Neu auf Spotify',
+  'music.listenOnSpotify': 'Auf Spotify anhören',
+
+  // 💱 Currency
+  'currency.label': 'Ungefähre Preise anzeigen in',
+  'currency.shopDefault': 'Shop-Währung',
+  'currency.select': 'Anzeigewährung',
+
+  // 🚧 Not found
+  'notFound.title': 'Hoppla! Seite nicht gefunden',
+  'notFound.message':
+    'Die gesuchte Seite existiert leider nicht. Sie wurde möglicherweise entfernt oder die URL ist falsch geschrieben.',
+  'notFound.home': 'Zur Startseite',
+
+  // ©️ Footer
+  'footer.copyright': '© {year} {shop} Shop. Alle Rechte vorbehalten.',
+
+  // 🔎 Server-rendered SEO
+  'seo.welcome': 'Willkommen',
+  'seo.home.description':
+    'Willkommen bei {shop} — dem offiziellen Shop von {artist}. Entdecke exklusives Merch und mehr!',
+  'seo.product.description':
+    '{product} — offizielles {artist} Merch im {shop} Shop.',
+  'seo.about.title': 'Über {artist}',
+  'seo.about.description':
+    'Lerne {artist} kennen — die Künstler hinter dem {shop} Shop.',
+  'seo.category.description.one':
+    '{count} {category}-Artikel von {artist} im {shop} Shop.',
+  'seo.category.description.other':
+    '{count} {category}-Artikel von {artist} im {shop} Shop.',
+  'seo.page.description': "Entdecke '{page}' im {shop} Shop.",
+};
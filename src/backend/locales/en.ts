@@ -0,0 +1,94 @@
+export const en = {
+  // 🧭 Common
+  'common.backToShop': '← Back to shop',
+  'common.language': 'Language',
+
+  // 🏠 Home
+  'home.bannerTitle': '{shop} Shop',
+  'home.bannerSubtitle':
+    'Find exclusive artist merchandise and support your favorite music!',
+  'home.productsTitle': 'Products',
+  'home.productsSubtitle': 'Explore our exclusive collection from {shop}',
+  'home.favoriteArtist': 'your favorite artist',
+  'home.aboutLink': 'About the artist',
+  'home.noMatches': 'No products match your filters.',
+
+  // 🎛️ Filters
+  'filters.search': 'Search products',
+  'filters.sortBy': 'Sort by',
+  'filters.clear': 'Clear filters',
+  'filters.price': 'Price: {min} – {max}',
+  'filters.minPrice': 'Minimum price',
+  'filters.maxPrice': 'Maximum price',
+  'sort.featured': 'Featured',
+  'sort.newest': 'Newest',
+  'sort.priceAsc': 'Price: low to high',
+  'sort.priceDesc': 'Price: high to low',
+  'sort.title': 'Title',
+
+  // 🛍️ Products
+  'product.addToCart': 'Add to cart',
+  'product.buyNow': 'Buy now',
+  'product.outOfStock': 'Out of stock',
+  'product.chooseOptions': 'Choose options',
+
+  // 🗂️ Categories
+  'category.all': 'All products',
+  'category.nav': 'Product categories',
+  'category.count.one': '{count} product',
+  'category.count.other': '{count} products',
+
+  // 🛒 Cart
+  'cart.open': 'Open cart',
+  'cart.title': 'Your cart',
+  'cart.empty': 'Your cart is empty.',
+  'cart.decrease': 'Decrease quantity',
+  'cart.increase': 'Increase quantity',
+  'cart.remove': 'Remove item',
+  'cart.subtotal': 'Subtotal',
+  'cart.checkout': 'Checkout',
+  'cart.added': 'Added to cart',
+  'cart.updateFailed': 'Could not update your cart',
+
+  // 🎤 About
+  'about.logoAlt': '{name} logo',
+  'about.comingSoon': 'More about {name} coming soon.',
+  'about.visitWebsite': 'Visit {website}',
+
+  // 🎵 Music
+  'music.title': 'Latest Music',
+  'music.subtitle': 'Listen to the newest releases',
+  'music.newOnSpotify': 'New on Spotify',
+  'music.listenOnSpotify': 'Listen on Spotify',
+
+  // 💱 Currency
+  'currency.label': 'Show approximate prices in',
+  'currency.shopDefault': 'Shop currency',
+  'currency.select': 'Display currency',
+
+  // 🚧 Not found
+  'notFound.title': 'Oops! Page Not Found',
+  'notFound.message':
+    'Sorry, the page you’re looking for doesn’t exist. It might have been removed or you may have mistyped the URL.',
+  'notFound.home': 'Go Home',
+
+  // ©️ Footer
+  'footer.copyright': '© {year} {shop} Shop. All rights reserved.',
+
+  // 🔎 Server-rendered SEO
+  'seo.welcome': 'Welcome',
+  'seo.home.description':
+    'Welcome to {shop} — official shop of {artist}. Discover exclusive merchandise and more!',
+  'seo.product.description':
+    '{product} — official {artist} merchandise on {shop} Shop.',
+  'seo.about.title': 'About {artist}',
+  'seo.about.description': 'Meet {artist} — the artist behind {shop} Shop.',
+  'seo.category.description.one':
+    'Shop {count} {category} item from {artist} on {shop} Shop.',
+  'seo.category.description.other':
+    'Shop {count} {category} items from {artist} on {shop} Shop.',
+  'seo.page.description': "Explore '{page}' on {shop} Shop.",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
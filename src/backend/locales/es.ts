@@ -0,0 +1,94 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  // 🧭 Common
+  'common.backToShop': '← Volver a la tienda',
+  'common.language': 'Idioma',
+
+  // 🏠 Home
+  'home.bannerTitle': 'Tienda {shop}',
+  'home.bannerSubtitle':
+    '¡Encuentra merch exclusivo y apoya a tu música favorita!',
+  'home.productsTitle': 'Productos',
+  'home.productsSubtitle': 'Explora la colección exclusiva de {shop}',
+  'home.favoriteArtist': 'tu artista favorito',
+  'home.aboutLink': 'Sobre el artista',
+  'home.noMatches': 'Ningún producto coincide con tus filtros.',
+
+  // 🎛️ Filters
+  'filters.search': 'Buscar productos',
+  'filters.sortBy': 'Ordenar por',
+  'filters.clear': 'Borrar filtros',
+  'filters.price': 'Precio: {min} – {max}',
+  'filters.minPrice': 'Precio mínimo',
+  'filters.maxPrice': 'Precio máximo',
+  'sort.featured': 'Destacados',
+  'sort.newest': 'Novedades',
+  'sort.priceAsc': 'Precio: de menor a mayor',
+  'sort.priceDesc': 'Precio: de mayor a menor',
+  'sort.title': 'Título',
+
+  // 🛍️ Products
+  'product.addToCart': 'Añadir al carrito',
+  'product.buyNow': 'Comprar ahora',
+  'product.outOfStock': 'Agotado',
+  'product.chooseOptions': 'Elegir opciones',
+
+  // 🗂️ Categories
+  'category.all': 'Todos los productos',
+  'category.nav': 'Categorías de productos',
+  'category.count.one': '{count} producto',
+  'category.count.other': '{count} productos',
+
+  // 🛒 Cart
+  'cart.open': 'Abrir carrito',
+  'cart.title': 'Tu carrito',
+  'cart.empty': 'Tu carrito está vacío.',
+  'cart.decrease': 'Reducir cantidad',
+  'cart.increase': 'Aumentar cantidad',
+  'cart.remove': 'Eliminar artículo',
+  'cart.subtotal': 'Subtotal',
+  'cart.checkout': 'Finalizar compra',
+  'cart.added': 'Añadido al carrito',
+  'cart.updateFailed': 'No se pudo actualizar tu carrito',
+
+  // 🎤 About
+  'about.logoAlt': 'Logo de {name}',
+  'about.comingSoon': 'Pronto habrá más sobre {name}.',
+  'about.visitWebsite': 'Visitar {website}',
+
+  // 🎵 Music
+  'music.title': 'Últimos lanzamientos',
+  'music.subtitle': 'Escucha las novedades',
+  'music.newOnSpotify': 'Nuevo en Spotify',
+  'music.listenOnSpotify': 'Escuchar en Spotify',
+
+  // 💱 Currency
+  'currency.label': 'Mostrar precios aproximados en',
+  'currency.shopDefault': 'Moneda de la tienda',
+  'currency.select': 'Moneda de visualización',
+
+  // 🚧 Not found
+  'notFound.title': '¡Vaya! Página no encontrada',
+  'notFound.message':
+    'La página que buscas no existe. Es posible que se haya eliminado o que la URL esté mal escrita.',
+  'notFound.home': 'Ir al inicio',
+
+  // ©️ Footer
+  'footer.copyright': '© {year} Tienda {shop}. Todos los derechos reservados.',
+
+  // 🔎 Server-rendered SEO
+  'seo.welcome': 'Bienvenido',
+  'seo.home.description':
+    'Bienvenido a {shop}, la tienda oficial de {artist}. ¡Descubre merch exclusivo y mucho más!',
+  'seo.product.description':
+    '{product}: merch oficial de {artist} en la tienda {shop}.',
+  'seo.about.title': 'Sobre {artist}',
+  'seo.about.description':
+    'Conoce a {artist}, el artista detrás de la tienda {shop}.',
+  'seo.category.description.one':
+    '{count} artículo de {category} de {artist} en la tienda {shop}.',
+  'seo.category.description.other':
+    '{count} artículos de {category} de {artist} en la tienda {shop}.',
+  'seo.page.description': "Explora '{page}' en la tienda {shop}.",
+};
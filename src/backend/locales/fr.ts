@@ -0,0 +1,94 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  // 🧭 Common
+  'common.backToShop': '← Retour à la boutique',
+  'common.language': 'Langue',
+
+  // 🏠 Home
+  'home.bannerTitle': 'Boutique {shop}',
+  'home.bannerSubtitle':
+    'Découvrez du merch exclusif et soutenez votre musique préférée !',
+  'home.productsTitle': 'Produits',
+  'home.productsSubtitle': 'Découvrez la collection exclusive de {shop}',
+  'home.favoriteArtist': 'votre artiste préféré',
+  'home.aboutLink': 'À propos de l’artiste',
+  'home.noMatches': 'Aucun produit ne correspond à vos filtres.',
+
+  // 🎛️ Filters
+  'filters.search': 'Rechercher des produits',
+  'filters.sortBy': 'Trier par',
+  'filters.clear': 'Effacer les filtres',
+  'filters.price': 'Prix : {min} – {max}',
+  'filters.minPrice': 'Prix minimum',
+  'filters.maxPrice': 'Prix maximum',
+  'sort.featured': 'En vedette',
+  'sort.newest': 'Nouveautés',
+  'sort.priceAsc': 'Prix croissant',
+  'sort.priceDesc': 'Prix décroissant',
+  'sort.title': 'Titre',
+
+  // 🛍️ Products
+  'product.addToCart': 'Ajouter au panier',
+  'product.buyNow': 'Acheter',
+  'product.outOfStock': 'En rupture de stock',
+  'product.chooseOptions': 'Choisir les options',
+
+  // 🗂️ Categories
+  'category.all': 'Tous les produits',
+  'category.nav': 'Catégories de produits',
+  'category.count.one': '{count} produit',
+  'category.count.other': '{count} produits',
+
+  // 🛒 Cart
+  'cart.open': 'Ouvrir le panier',
+  'cart.title': 'Votre panier',
+  'cart.empty': 'Votre panier est vide.',
+  'cart.decrease': 'Diminuer la quantité',
+  'cart.increase': 'Augmenter la quantité',
+  'cart.remove': 'Retirer l’article',
+  'cart.subtotal': 'Sous-total',
+  'cart.checkout': 'Passer la commande',
+  'cart.added': 'Ajouté au panier',
+  'cart.updateFailed': 'Impossible de mettre à jour votre panier',
+
+  // 🎤 About
+  'about.logoAlt': 'Logo de {name}',
+  'about.comingSoon': 'Plus d’informations sur {name} bientôt.',
+  'about.visitWebsite': 'Visiter {website}',
+
+  // 🎵 Music
+  'music.title': 'Dernières sorties',
+  'music.subtitle': 'Écoutez les nouveautés',
+  'music.newOnSpotify': 'Nouveau sur Spotify',
+  'music.listenOnSpotify': 'Écouter sur Spotify',
+
+  // 💱 Currency
+  'currency.label': 'Afficher les prix approximatifs en',
+  'currency.shopDefault': 'Devise de la boutique',
+  'currency.select': 'Devise d’affichage',
+
+  // 🚧 Not found
+  'notFound.title': 'Oups ! Page introuvable',
+  'notFound.message':
+    'La page que vous cherchez n’existe pas. Elle a peut-être été supprimée ou l’URL est mal saisie.',
+  'notFound.home': 'Accueil',
+
+  // ©️ Footer
+  'footer.copyright': '© {year} Boutique {shop}. Tous droits réservés.',
+
+  // 🔎 Server-rendered SEO
+  'seo.welcome': 'Bienvenue',
+  'seo.home.description':
+    'Bienvenue sur {shop} — la boutique officielle de {artist}. Découvrez du merch exclusif et plus encore !',
+  'seo.product.description':
+    '{product} — merch officiel de {artist} sur la boutique {shop}.',
+  'seo.about.title': 'À propos de {artist}',
+  'seo.about.description':
+    'Découvrez {artist} — l’artiste derrière la boutique {shop}.',
+  'seo.category.description.one':
+    '{count} article {category} de {artist} sur la boutique {shop}.',
+  'seo.category.description.other':
+    '{count} articles {category} de {artist} sur la boutique {shop}.',
+  'seo.page.description': "Découvrez '{page}' sur la boutique {shop}.",
+};
@@ -0,0 +1,188 @@
+/**
+ * Minimal in-memory Shopify Storefront API for testing the cart offline.
+ * Point a shop at it with "apiUrl" in SHOPIFY_STOREFRONTS, e.g.
+ * {"<shopId>":{"storeDomain":"mock.myshopify.com","publicAccessToken":"mock","apiVersion":"2026-10","apiUrl":"http://localhost:4700/api/graphql.json"}}
+ */
+import crypto from 'crypto';
+import http from 'http';
+
+const PORT = parseInt(process.env.MOCK_STOREFRONT_PORT || '4700', 10);
+const PRICE = process.env.MOCK_STOREFRONT_PRICE || '20.00';
+const CURRENCY = process.env.MOCK_STOREFRONT_CURRENCY || 'USD';
+
+interface MockLine {
+  id: string;
+  merchandiseId: string;
+  quantity: number;
+}
+
+interface MockCart {
+  id: string;
+  token: string;
+  lines: MockLine[];
+}
+
+interface MockVariables {
+  cartId?: string;
+  lines?: { id?: string; merchandiseId?: string; quantity: number }[];
+  lineIds?: string[];
+}
+
+const carts = new Map<string, MockCart>();
+
+const money = (amount: number) => ({
+  amount: amount.toFixed(2),
+  currencyCode: CURRENCY,
+});
+
+function serializeCart(cart: MockCart) {
+  const unitPrice = parseFloat(PRICE);
+  const subtotal = cart.lines.reduce(
+    (sum, l) => sum + l.quantity * unitPrice,
+    0
+  );
+
+  return {
+    id: cart.id,
+    checkoutUrl: `http://localhost:${PORT}/checkouts/${cart.token}`,
+    totalQuantity: cart.lines.reduce((sum, l) => sum + l.quantity, 0),
+    cost: { subtotalAmount: money(subtotal), totalAmount: money(subtotal) },
+    lines: {
+      nodes: cart.lines.map((line) => {
+        const variantId = line.merchandiseId.split('/').pop();
+        return {
+          id: line.id,
+          quantity: line.quantity,
+          cost: { totalAmount: money(line.quantity * unitPrice) },
+          merchandise: {
+            id: line.merchandiseId,
+            title: `Variant ${variantId}`,
+            image: null,
+            price: money(unitPrice),
+            product: { title: `Mock product ${variantId}` },
+          },
+        };
+      }),
+    },
+  };
+}
+
+function addLines(cart: MockCart, lines: MockVariables['lines'] = []) {
+  for (const { merchandiseId, quantity } of lines) {
+    const existing = cart.lines.find((l) => l.merchandiseId === merchandiseId);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      cart.lines.push({
+        id: `gid://shopify/CartLine/${crypto.randomUUID()}`,
+        merchandiseId,
+        quantity,
+      });
+    }
+  }
+}
+
+function mutationResult(field: string, cart: MockCart | undefined) {
+  return {
+    [field]: cart
+      ? { cart: serializeCart(cart), userErrors: [] }
+      : {
+          cart: null,
+          userErrors: [
+            {
+              field: ['cartId'],
+              message: 'The specified cart does not exist.',
+            },
+          ],
+        },
+  };
+}
+
+function execute(operation: string, variables: MockVariables) {
+  const cart = variables.cartId ? carts.get(variables.cartId) : undefined;
+
+  switch (operation) {
+    case 'Cart':
+      return { cart: cart ? serializeCart(cart) : null };
+    case 'CartCreate': {
+      const token = crypto.randomBytes(12).toString('hex');
+      const created: MockCart = {
+        id: `gid://shopify/Cart/${token}?key=${crypto.randomBytes(8).toString('hex')}`,
+        token,
+        lines: [],
+      };
+      addLines(created, variables.lines);
+      carts.set(created.id, created);
+      return mutationResult('cartCreate', created);
+    }
+    case 'CartLinesAdd':
+      if (cart) addLines(cart, variables.lines);
+      return mutationResult('cartLinesAdd', cart);
+    case 'CartLinesUpdate':
+      for (const { id, quantity } of cart ? (variables.lines ?? []) : []) {
+        const line = cart.lines.find((l) => l.id === id);
+        if (line) line.quantity = quantity;
+      }
+      if (cart) cart.lines = cart.lines.filter((l) => l.quantity > 0);
+      return mutationResult('cartLinesUpdate', cart);
+    case 'CartLinesRemove':
+      if (cart) {
+        cart.lines = cart.lines.filter(
+          (l) => !variables.lineIds?.includes(l.id)
+        );
+      }
+      return mutationResult('cartLinesRemove', cart);
+    default:
+      return undefined;
+  }
+}
+
+const server = http.createServer((req, res) => {
+  const json = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  // 🧾 Checkout stand-in: completing it empties the cart like a real order
+  const checkout = req.url?.match(/^\/checkouts\/([a-f0-9]+)/);
+  if (req.method === 'GET' && checkout) {
+    const cart = [...carts.values()].find((c) => c.token === checkout[1]);
+    if (cart) carts.delete(cart.id);
+    res.writeHead(cart ? 200 : 404, { 'Content-Type': 'text/html' });
+    res.end(
+      cart
+        ? `<h1>Mock checkout complete</h1><p>${cart.lines.length} line(s) ordered.</p>`
+        : '<h1>Checkout not found</h1>'
+    );
+    return;
+  }
+
+  if (req.method !== 'POST' || !req.url?.endsWith('/graphql.json')) {
+    json(404, { errors: [{ message: 'Not found' }] });
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    try {
+      const { query, variables = {} } = JSON.parse(body);
+      const operation = String(query).match(/(?:query|mutation)\s+(\w+)/)?.[1];
+      const data = operation ? execute(operation, variables) : undefined;
+
+      if (!data) {
+        json(200, {
+          errors: [{ message: `Unsupported operation ${operation}` }],
+        });
+        return;
+      }
+      json(200, { data });
+    } catch (error) {
+      json(400, { errors: [{ message: (error as Error).message }] });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Mock Storefront API listening on http://localhost:${PORT}`);
+});
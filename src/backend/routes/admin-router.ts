@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response, Router } from 'express';
+import { LocalDatabase } from '../utils/local-database';
+import { logger } from '../utils/logger';
+
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * 🔑 Bearer token guard, shared with other operator endpoints such as
+ * /metrics. Everything behind it is disabled without a configured token.
+ */
+export function requireAdminToken(token: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!token) {
+      res.status(404).json({ error: 'Admin API is disabled' });
+      return;
+    }
+
+    const header = req.get('authorization') || '';
+    const provided = header.replace(/^Bearer\s+/i, '');
+    if (!provided || !tokensMatch(provided, token)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  };
+}
+
+export function createAdminRouter(db: LocalDatabase, token: string): Router {
+  const router = Router();
+
+  router.use(requireAdminToken(token));
+
+  router.get('/sync', (_req: Request, res: Response) => {
+    const runs = db.getSyncRuns();
+    res.status(200).json({
+      syncing: db.isSyncing(),
+      progress: db.getSyncProgress() ?? null,
+      artistCount: db.getAllArtists().length,
+      lastRun: runs[0] ?? null,
+      lastFullRun: runs.find((r) => r.scope === 'all') ?? null,
+      recentRuns: runs,
+    });
+  });
+
+  router.post('/sync', (_req: Request, res: Response) => {
+    if (db.isSyncing()) {
+      res.status(409).json({ error: 'A sync is already running' });
+      return;
+    }
+
+    void db
+      .syncAll()
+      .catch((err) => logger.error('Manual full sync failed', { err }));
+    res.status(202).json({ message: 'Full sync started' });
+  });
+
+  router.post('/sync/artists/:artistId', (req: Request, res: Response) => {
+    if (db.isSyncing()) {
+      res.status(409).json({ error: 'A sync is already running' });
+      return;
+    }
+
+    const { artistId } = req.params;
+    void db
+      .syncArtist(artistId)
+      .catch((err) =>
+        logger.error('Manual artist sync failed', { artistId, err })
+      );
+    res.status(202).json({ message: `Sync started for artist ${artistId}` });
+  });
+
+  router.get('/domains', (_req: Request, res: Response) => {
+    const artists = new Map(db.getAllArtists().map((a) => [a.id, a]));
+    const mappings = db.getDomains().map((d) => {
+      const shop = db.getShopByArtist(d.artistId);
+      return {
+        ...d,
+        artistName: artists.get(d.artistId)?.name ?? null,
+        shopName: shop?.name ?? null,
+        canonicalDomain: shop?.canonicalDomain ?? null,
+      };
+    });
+
+    res.status(200).json(mappings);
+  });
+
+  return router;
+}
@@ -0,0 +1,168 @@
+import { Request, Response, Router } from 'express';
+import { CartEntity } from '../interfaces/cart';
+import { Storefront } from '../interfaces/domain';
+import { readCookie } from '../utils/cookies';
+import { LocalDatabase } from '../utils/local-database';
+import { CartError, ShopifyCartClient } from '../utils/shopify-cart';
+import { logger } from '../utils/logger';
+
+const CART_COOKIE = 'cart_id';
+// Storefront API carts expire after ten days without updates
+const CART_COOKIE_MAX_AGE_MS = 10 * 24 * 60 * 60 * 1000;
+const MAX_LINE_QUANTITY = 99;
+
+function parseQuantity(value: unknown, min: number): number | undefined {
+  const quantity = Number(value);
+  return Number.isInteger(quantity) &&
+    quantity >= min &&
+    quantity <= MAX_LINE_QUANTITY
+    ? quantity
+    : undefined;
+}
+
+export function createCartRouter(
+  db: LocalDatabase,
+  carts: ShopifyCartClient
+): Router {
+  const router = Router();
+
+  const storeCart = (req: Request, res: Response, cart: CartEntity) => {
+    res.cookie(CART_COOKIE, cart.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      maxAge: CART_COOKIE_MAX_AGE_MS,
+    });
+    res.status(200).json(cart);
+  };
+
+  const clearCart = (res: Response) => res.clearCookie(CART_COOKIE);
+
+  const handleError = (res: Response, error: unknown) => {
+    if (error instanceof CartError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+
+    logger.error('Cart request failed', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  };
+
+  // 🔌 Shops without Storefront credentials have no cart
+  router.use((_req: Request, res: Response, next) => {
+    const { shop } = res.locals.storefront as Storefront;
+    if (!carts.isEnabled(shop.id)) {
+      res.status(404).json({ error: 'Cart is not available for this shop' });
+      return;
+    }
+    next();
+  });
+
+  router.get('/', async (req: Request, res: Response) => {
+    const { shop } = res.locals.storefront as Storefront;
+    const cartId = readCookie(req, CART_COOKIE);
+    if (!cartId) {
+      res.status(200).json(null);
+      return;
+    }
+
+    try {
+      const cart = await carts.getCart(shop.id, cartId);
+      if (!cart) {
+        // Expired or completed carts are dropped so the next add starts fresh
+        clearCart(res).status(200).json(null);
+        return;
+      }
+      storeCart(req, res, cart);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  router.post('/lines', async (req: Request, res: Response) => {
+    const { shop } = res.locals.storefront as Storefront;
+    const variantId = String(req.body?.variantId || '');
+    const quantity = parseQuantity(req.body?.quantity ?? 1, 1);
+
+    const variant = variantId ? db.getVariant(shop.id, variantId) : undefined;
+    const merchandiseId = variant
+      ? ShopifyCartClient.toMerchandiseId(variant.id)
+      : undefined;
+    if (!merchandiseId || !quantity) {
+      res
+        .status(400)
+        .json({ error: 'A valid variantId and quantity are required' });
+      return;
+    }
+
+    const lines = [{ merchandiseId, quantity }];
+    const cartId = readCookie(req, CART_COOKIE);
+
+    try {
+      storeCart(req, res, await carts.addLines(shop.id, cartId, lines));
+    } catch (error) {
+      if (cartId && error instanceof CartError && error.status === 404) {
+        // The stored cart is gone; start a new one with the same lines
+        try {
+          storeCart(req, res, await carts.addLines(shop.id, undefined, lines));
+        } catch (retryError) {
+          handleError(res, retryError);
+        }
+        return;
+      }
+      handleError(res, error);
+    }
+  });
+
+  router.patch('/lines/:lineId', async (req: Request, res: Response) => {
+    const { shop } = res.locals.storefront as Storefront;
+    const cartId = readCookie(req, CART_COOKIE);
+    const quantity = parseQuantity(req.body?.quantity, 0);
+    if (!cartId || quantity === undefined) {
+      res
+        .status(400)
+        .json({ error: 'A cart and a valid quantity are required' });
+      return;
+    }
+
+    try {
+      const cart =
+        quantity === 0
+          ? await carts.removeLine(shop.id, cartId, req.params.lineId)
+          : await carts.updateLine(
+              shop.id,
+              cartId,
+              req.params.lineId,
+              quantity
+            );
+      storeCart(req, res, cart);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  router.delete('/lines/:lineId', async (req: Request, res: Response) => {
+    const { shop } = res.locals.storefront as Storefront;
+    const cartId = readCookie(req, CART_COOKIE);
+    if (!cartId) {
+      res.status(400).json({ error: 'No cart to update' });
+      return;
+    }
+
+    try {
+      storeCart(
+        req,
+        res,
+        await carts.removeLine(shop.id, cartId, req.params.lineId)
+      );
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  router.delete('/', (_req: Request, res: Response) => {
+    clearCart(res).status(204).end();
+  });
+
+  return router;
+}
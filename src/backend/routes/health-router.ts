@@ -0,0 +1,140 @@
+import fs from 'fs';
+import { Request, Response, Router } from 'express';
+import { fetch } from 'undici';
+import { LocalDatabase } from '../utils/local-database';
+
+interface HealthRouterOptions {
+  apiUrl: string;
+  apiTimeoutMs: number;
+  maxSyncAgeMs: number;
+  templatePaths: string[];
+}
+
+interface CheckResult {
+  ok: boolean;
+  [detail: string]: unknown;
+}
+
+// Probes run every few seconds; don't turn them into upstream traffic
+const UPSTREAM_CHECK_TTL_MS = 15_000;
+
+export function createHealthRouter(
+  db: LocalDatabase,
+  { apiUrl, apiTimeoutMs, maxSyncAgeMs, templatePaths }: HealthRouterOptions
+): Router {
+  const router = Router();
+  let upstreamCache: { checkedAt: number; result: CheckResult } | undefined;
+
+  const checkDatabase = (): CheckResult => {
+    try {
+      const artistCount = db.countArtists();
+      return artistCount > 0
+        ? { ok: true, artistCount }
+        : { ok: false, artistCount, error: 'Database has no artists' };
+    } catch (err) {
+      return { ok: false, error: (err as Error).message };
+    }
+  };
+
+  const checkSync = (): CheckResult => {
+    const lastSuccess = db.getLastSuccessfulSync();
+    const lastRun = db.getLastSyncRun();
+    const freshness = db.getDataFreshness();
+    if (!lastSuccess) {
+      return {
+        ok: false,
+        maxAgeMs: maxSyncAgeMs,
+        lastRunStatus: lastRun?.status ?? null,
+        ...freshness,
+        error: 'No successful sync yet',
+      };
+    }
+
+    const ageMs = Date.now() - Date.parse(lastSuccess.finishedAt);
+    return {
+      ok: ageMs <= maxSyncAgeMs && !freshness.stale,
+      lastSuccessAt: lastSuccess.finishedAt,
+      ageMs,
+      maxAgeMs: maxSyncAgeMs,
+      lastRunStatus: lastRun?.status ?? null,
+      syncing: db.isSyncing(),
+      ...freshness,
+    };
+  };
+
+  const checkTemplates = (): CheckResult => {
+    const missing = templatePaths.filter((filePath) => {
+      try {
+        fs.accessSync(filePath, fs.constants.R_OK);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    return { ok: !missing.length, missing };
+  };
+
+  // Any answer below 500 means the API is up, even if it rejects the probe
+  const checkUpstream = async (): Promise<CheckResult> => {
+    if (
+      upstreamCache &&
+      Date.now() - upstreamCache.checkedAt < UPSTREAM_CHECK_TTL_MS
+    ) {
+      return upstreamCache.result;
+    }
+
+    const startedAt = Date.now();
+    let result: CheckResult;
+    try {
+      const response = await fetch(apiUrl, {
+        method: 'HEAD',
+        signal: AbortSignal.timeout(apiTimeoutMs),
+      });
+      result = {
+        ok: response.status < 500,
+        status: response.status,
+        latencyMs: Date.now() - startedAt,
+      };
+    } catch (err) {
+      result = {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        error: (err as Error).message,
+      };
+    }
+
+    upstreamCache = { checkedAt: Date.now(), result };
+    return result;
+  };
+
+  // 💓 Liveness: the process is up and serving requests
+  router.get('/', (_req: Request, res: Response) => {
+    res.status(200).send('OK');
+  });
+
+  router.get('/live', (_req: Request, res: Response) => {
+    res
+      .status(200)
+      .json({ status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  // ✅ Readiness: safe to route shop traffic here. Stale sync or an
+  // unreachable API only degrades it, since persisted data is still served
+  router.get('/ready', async (_req: Request, res: Response) => {
+    const checks = {
+      database: checkDatabase(),
+      sync: checkSync(),
+      templates: checkTemplates(),
+      upstream: await checkUpstream(),
+    };
+    const ready = checks.database.ok && checks.templates.ok;
+    const healthy = Object.values(checks).every((check) => check.ok);
+
+    res.status(ready ? 200 : 503).json({
+      status: healthy ? 'ready' : ready ? 'degraded' : 'not_ready',
+      checks,
+    });
+  });
+
+  return router;
+}
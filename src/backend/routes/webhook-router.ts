@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import express, { Request, Response, Router } from 'express';
+import { LocalDatabase } from '../utils/local-database';
+import { CatalogWebhookPayload } from '../interfaces/webhook';
+import { logger } from '../utils/logger';
+
+function signatureMatches(
+  rawBody: Buffer,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(rawBody)
+    .digest('hex');
+  const provided = signature.replace(/^sha256=/i, '').toLowerCase();
+
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+/** Plain object whose artistId/shopId, when present, are non-empty strings. */
+function isCatalogPayload(body: unknown): body is CatalogWebhookPayload {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return false;
+  const { artistId, shopId } = body as Record<string, unknown>;
+  return (
+    (artistId === undefined || isNonEmptyString(artistId)) &&
+    (shopId === undefined || isNonEmptyString(shopId))
+  );
+}
+
+export function createWebhookRouter(db: LocalDatabase, secret: string): Router {
+  const router = Router();
+
+  router.post(
+    '/catalog',
+    express.raw({ type: '*/*', limit: '1mb' }),
+    (req: Request, res: Response) => {
+      if (!secret) {
+        res.status(404).json({ error: 'Webhooks are disabled' });
+        return;
+      }
+
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const signature = req.get('x-signature') || '';
+      if (!signature || !signatureMatches(rawBody, signature, secret)) {
+        logger.warn('Rejected catalog webhook with invalid signature');
+        res.status(401).json({ error: 'Invalid signature' });
+        return;
+      }
+
+      const deliveryId = req.get('x-delivery-id') || '';
+      if (!deliveryId) {
+        res.status(400).json({ error: 'Missing X-Delivery-Id header' });
+        return;
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        res.status(400).json({ error: 'Body must be valid JSON' });
+        return;
+      }
+      if (!isCatalogPayload(payload)) {
+        res.status(400).json({
+          error: 'Body must be an object with string artistId or shopId',
+        });
+        return;
+      }
+
+      const artistId =
+        payload.artistId ||
+        (payload.shopId ? db.getShopById(payload.shopId)?.artistId : '');
+      if (!artistId) {
+        res.status(400).json({ error: 'Payload must reference an artist' });
+        return;
+      }
+
+      if (db.hasWebhookDelivery(deliveryId)) {
+        res.status(200).json({ duplicate: true });
+        return;
+      }
+
+      logger.info('Catalog webhook queued sync', {
+        deliveryId,
+        event: payload.event || 'unknown',
+        artistId,
+      });
+      db.queueArtistSync(artistId, deliveryId);
+      res.status(202).json({ queued: artistId });
+    }
+  );
+
+  return router;
+}
@@ -1,26 +1,108 @@
-import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
 import compression from 'compression';
 
-import { SeoHelper } from './utils/seo-helper';
+import { OgType, SeoHelper } from './utils/seo-helper';
 import { Config } from './utils/config';
 import { LocalDatabase } from './utils/local-database';
+import { SitemapBuilder } from './utils/sitemap-builder';
+import { createAdminRouter, requireAdminToken } from './routes/admin-router';
+import { createWebhookRouter } from './routes/webhook-router';
+import { createCartRouter } from './routes/cart-router';
+import { createHealthRouter } from './routes/health-router';
+import { TemplateCache } from './utils/template-cache';
+import { RenderCache } from './utils/render-cache';
+import { ShopifyCartClient } from './utils/shopify-cart';
+import { buildCategories, filterByCategory } from './utils/category';
+import {
+  getMessages,
+  resolveLanguage,
+  FALLBACK_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  toLanguage,
+  toOgLocale,
+  translate,
+  translatePlural,
+} from './utils/i18n';
+import { logger, LogLevel, runWithLogContext } from './utils/logger';
+import {
+  corsRejections,
+  httpRequestDuration,
+  httpRequests,
+  metricsRegistry,
+  registerDatabaseGauges,
+  unknownHostRequests,
+} from './utils/metrics';
+import { Storefront } from './interfaces/domain';
+import { VariantEntity } from './interfaces/product';
 
 dotenv.config();
 
 const config = new Config();
+logger.setLevel(config.get('LOG_LEVEL') as LogLevel);
 const db = LocalDatabase.getInstance();
+const carts = new ShopifyCartClient(config.get('SHOPIFY_STOREFRONTS'));
 
 const app = express();
+registerDatabaseGauges(db);
+
+// 🪪 Request IDs and access logs. A sane incoming X-Request-Id (e.g. from a
+// proxy) is kept so logs can be correlated across hops
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('x-request-id');
+  const requestId =
+    incoming && /^[\w.-]{1,64}$/.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+  const startedAt = process.hrtime.bigint();
+  // Mounted routers rewrite req.path, so capture it before routing
+  const { path } = req;
+
+  res.setHeader('X-Request-Id', requestId);
+  res.on('finish', () => {
+    const fields = {
+      requestId,
+      method: req.method,
+      host: req.hostname,
+      path,
+      status: res.statusCode,
+      durationMs: Number((process.hrtime.bigint() - startedAt) / 1000n) / 1000,
+      bytes: Number(res.getHeader('content-length')) || undefined,
+    };
+    if (res.statusCode >= 500) logger.error('Request failed', fields);
+    else logger.info('Request completed', fields);
+
+    const shop = db.resolveDomain(req.hostname)?.shopId ?? 'unknown';
+    httpRequests.inc({ shop, method: req.method, status: res.statusCode });
+    httpRequestDuration.observe(
+      { shop, method: req.method },
+      fields.durationMs / 1000
+    );
+  });
+
+  runWithLogContext({ requestId }, next);
+});
+
+// 🪝 Webhooks verify signatures over the raw body, so they mount before express.json()
+app.use('/webhooks', createWebhookRouter(db, config.get('WEBHOOK_SECRET')));
 app.use(express.json());
 
 // 📁 Paths
 const INDEX_HTML_PATH = config.get('INDEX_HTML_PATH');
 const MAINTENANCE_HTML_PATH = config.get('MAINTENANCE_HTML_PATH');
 
-const API_URL = config.get('API_URL');
+// 🗃️ Render caches
+const templates = new TemplateCache();
+const renderCache = new RenderCache(
+  parseInt(config.get('RENDER_CACHE_MAX_ENTRIES'), 10),
+  config.get('RENDER_CACHE_DIR')
+);
+
+templates.onChange(() => renderCache.clear());
+db.onDataChanged((artistIds) => renderCache.invalidateArtists(artistIds));
 
 // 🔒 CORS setup
 function wildcardToRegex(domain: string): RegExp[] {
@@ -47,7 +129,8 @@ app.use(
       if (!origin) return callback(null, true);
       const match = corsAllowedRegex.find((regex) => regex.test(origin));
       if (match) return callback(null, true);
-      console.error(`❌ CORS blocked: ${origin}`);
+      logger.warn('CORS origin blocked', { origin });
+      corsRejections.inc();
       callback(new Error('Not allowed by CORS'));
     },
     credentials: true,
@@ -86,10 +169,89 @@ app.use(
   express.static(config.get('STATIC_DIR'))
 );
 
-app.get('/health', (_req, res) => {
-  res.status(200).send('OK');
+// 🖼️ Artist and shop images cached during sync. Names are content hashes,
+// so responses can be cached forever and survive API outages
+app.get('/media/:file', (req: Request, res: Response) => {
+  const filePath = db.getMediaPath(req.params.file);
+  if (!filePath) {
+    res.status(404).json({ error: 'Media not found' });
+    return;
+  }
+
+  // SVGs can carry scripts; never let them run on the shop's origin
+  res.setHeader(
+    'Content-Security-Policy',
+    "default-src 'none'; style-src 'unsafe-inline'"
+  );
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  // Overrides the no-store defaults set for API responses
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  res.removeHeader('Pragma');
+  res.removeHeader('Expires');
+  res.removeHeader('Surrogate-Control');
+  res.sendFile(filePath, { cacheControl: false });
 });
 
+// 🌐 Host resolution
+function resolveStorefront(req: Request): Storefront | undefined {
+  const domain = db.resolveDomain(req.hostname);
+  if (!domain) return undefined;
+
+  const artist = db.getArtist(domain.artistId);
+  const shop = db.getShopByArtist(domain.artistId);
+  if (!artist || !shop) return undefined;
+
+  return {
+    artist,
+    shop,
+    baseUrl: `https://${shop.canonicalDomain || req.hostname}`,
+  };
+}
+
+function requireStorefront(req: Request, res: Response, next: NextFunction) {
+  const storefront = resolveStorefront(req);
+  if (!storefront) {
+    logger.warn('No shop mapped to host', { host: req.hostname });
+    unknownHostRequests.inc();
+    res
+      .status(404)
+      .json({ error: `No shop is configured for host ${req.hostname}` });
+    return;
+  }
+
+  res.locals.storefront = storefront;
+  next();
+}
+
+// 🛠️ Admin API
+app.use('/api/admin', createAdminRouter(db, config.get('ADMIN_API_TOKEN')));
+
+// 💓 Liveness (/health, /health/live) and readiness (/health/ready)
+app.use(
+  '/health',
+  createHealthRouter(db, {
+    apiUrl: config.get('API_URL'),
+    apiTimeoutMs: parseInt(config.get('READINESS_API_TIMEOUT_MS'), 10),
+    maxSyncAgeMs: parseInt(config.get('READINESS_MAX_SYNC_AGE_MS'), 10),
+    templatePaths: [INDEX_HTML_PATH, MAINTENANCE_HTML_PATH],
+  })
+);
+
+// 📈 Prometheus metrics, scraped with the admin bearer token
+app.get(
+  '/metrics',
+  requireAdminToken(config.get('ADMIN_API_TOKEN')),
+  async (_req, res: Response) => {
+    try {
+      res.type(metricsRegistry.contentType);
+      res.status(200).send(await metricsRegistry.metrics());
+    } catch (error) {
+      logger.error('Failed to collect metrics', { err: error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 // 🤖 Robots.txt
 app.get('/robots.txt', (req: Request, res: Response) => {
   const baseUrl = `https://${req.hostname}`;
@@ -97,86 +259,318 @@ app.get('/robots.txt', (req: Request, res: Response) => {
   res.render('robots', { baseUrl });
 });
 
-// 🧠 Shop info endpoint
-app.get('/info', async (req: Request, res: Response) => {
-  let host = req.get('host') || '';
+// 🗺️ Sitemap
+function buildSitemap(req: Request): SitemapBuilder | undefined {
+  const storefront = resolveStorefront(req);
+  if (!storefront) return undefined;
+
+  const { shop, baseUrl } = storefront;
+  return new SitemapBuilder(
+    baseUrl,
+    shop,
+    db.getProducts(shop.id),
+    parseInt(config.get('SITEMAP_MAX_URLS'), 10)
+  );
+}
+
+app.get('/sitemap.xml', (req: Request, res: Response) => {
+  const sitemap = buildSitemap(req);
+  if (!sitemap) {
+    logger.warn('No sitemap for host', { host: req.hostname });
+    unknownHostRequests.inc();
+    res.sendStatus(404);
+    return;
+  }
+
+  res.type('application/xml');
+  res.send(sitemap.isIndex ? sitemap.renderIndex() : sitemap.renderPage(1));
+});
 
-  const parts = host.split('.');
-  if (parts.length > 2) {
-    host = parts.slice(-2).join('.');
+app.get(/^\/sitemap-(\d+)\.xml$/, (req: Request, res: Response) => {
+  const xml = buildSitemap(req)?.renderPage(parseInt(req.params[0], 10));
+  if (!xml) {
+    res.sendStatus(404);
+    return;
   }
 
-  host = host.toLowerCase();
+  res.type('application/xml');
+  res.send(xml);
+});
 
+// 🧠 Shop info endpoint, including the shop's theme and branding
+app.get('/info', requireStorefront, async (_req: Request, res: Response) => {
   try {
-    const artist = db.getArtistByWebsite(host);
-    if (!artist) {
-      res.status(404).json({ error: 'Artist not found' });
-      return;
-    }
+    const { artist, shop } = res.locals.storefront as Storefront;
+    res.status(200).json({
+      ...shop,
+      imageUrl: shop.hasImage ? db.getShopImageUrl(shop.id) : undefined,
+      logoUrl: artist.hasLogo
+        ? db.getArtistImageUrl(artist.id, 'logo')
+        : undefined,
+      cartEnabled: carts.isEnabled(shop.id),
+    });
+  } catch (error) {
+    logger.error('Failed to get artist info', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    const shop = db.getShopByArtist(artist.id);
-    if (!shop) {
-      res.status(404).json({ error: 'Shop not found for artist' });
-      return;
-    }
+// 🎤 Artist profile endpoint
+app.get('/artist', requireStorefront, async (_req, res: Response) => {
+  try {
+    const { artist } = res.locals.storefront as Storefront;
+    res.status(200).json(db.getArtistProfile(artist.id));
+  } catch (error) {
+    logger.error('Failed to get artist profile', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// 🛒 Cart backed by each shop's Shopify Storefront API
+app.use('/cart', requireStorefront, createCartRouter(db, carts));
 
-    res.status(200).json(shop);
+// 🌐 UI translations in the visitor's language
+app.get('/translations', requireStorefront, async (req, res: Response) => {
+  try {
+    const { shop } = res.locals.storefront as Storefront;
+    const language = resolveLanguage(req, shop.locale);
+    res.vary('Accept-Language').vary('Cookie');
+    res.status(200).json({
+      language,
+      supportedLanguages: SUPPORTED_LANGUAGES,
+      messages: getMessages(language),
+    });
   } catch (error) {
-    console.error('❌ Failed to get artist info:', error);
+    logger.error('Failed to get translations', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// 🌍 Catch-all for SEO rendering
-app.get(/.*/, async (req: Request, res: Response) => {
-  let host = req.get('host') || '';
+// 💱 Currency rates for approximate prices in a visitor-selected currency
+app.get('/currencies', async (_req: Request, res: Response) => {
+  try {
+    res.status(200).json(db.getCurrencyRates() ?? null);
+  } catch (error) {
+    logger.error('Failed to get currency rates', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-  const parts = host.split('.');
-  if (parts.length > 2) {
-    host = parts.slice(-2).join('.');
+// 🎵 Artist music endpoints
+app.get('/releases', requireStorefront, async (_req, res: Response) => {
+  try {
+    const { artist } = res.locals.storefront as Storefront;
+    res
+      .status(200)
+      .json(
+        db.getLatestReleases(artist.id) ?? { youtube: null, spotify: null }
+      );
+  } catch (error) {
+    logger.error('Failed to get latest releases', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
   }
+});
 
-  host = host.toLowerCase();
+app.get('/socials', requireStorefront, async (_req, res: Response) => {
+  try {
+    const { artist } = res.locals.storefront as Storefront;
+    res.status(200).json(db.getSocials(artist.id));
+  } catch (error) {
+    logger.error('Failed to get socials', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-  const artist = db.getArtistByWebsite(host);
+// 🛍️ Product catalog endpoint
+app.get('/products', requireStorefront, async (_req, res: Response) => {
+  try {
+    const { shop } = res.locals.storefront as Storefront;
+    res.status(200).json(db.getProducts(shop.id));
+  } catch (error) {
+    logger.error('Failed to get products', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-  if (!artist) {
-    console.warn(`❌ No artist found for host: ${host}`);
-    res.sendStatus(404);
-    return;
+app.get(
+  '/products/:groupId',
+  requireStorefront,
+  async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.storefront as Storefront;
+      const product = db.getProduct(shop.id, req.params.groupId);
+      if (!product) {
+        res.status(404).json({ error: 'Product not found' });
+        return;
+      }
+
+      res.status(200).json(product);
+    } catch (error) {
+      logger.error('Failed to get product', { err: error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
   }
+);
 
-  const shop = db.getShopByArtist(artist.id);
+// 🗂️ Category endpoints
+app.get('/categories', requireStorefront, async (_req, res: Response) => {
+  try {
+    const { shop } = res.locals.storefront as Storefront;
+    res.status(200).json(buildCategories(db.getProducts(shop.id)));
+  } catch (error) {
+    logger.error('Failed to get categories', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-  if (!shop) {
-    console.warn(
-      `❌ No shop found for artist: ${artist.name} (ID: ${artist.id})`
-    );
-    res.sendStatus(404);
-    return;
+app.get(
+  '/categories/:slug',
+  requireStorefront,
+  async (req: Request, res: Response) => {
+    try {
+      const { shop } = res.locals.storefront as Storefront;
+      const products = filterByCategory(
+        db.getProducts(shop.id),
+        req.params.slug
+      );
+      const category = buildCategories(products)[0];
+      if (!category) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+
+      res.status(200).json({ ...category, products });
+    } catch (error) {
+      logger.error('Failed to get category', { err: error });
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+function matchPathParam(path: string, pattern: RegExp): string | undefined {
+  const match = path.match(pattern);
+  if (!match) return undefined;
+
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return undefined;
   }
+}
+
+function truncate(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxLength) return clean;
+  return `${clean.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+// 🌍 Catch-all for SEO rendering
+interface RenderResult {
+  html: string;
+  status: number;
+  cacheable: boolean;
+}
+
+async function renderPage(
+  req: Request,
+  { artist, shop, baseUrl }: Storefront,
+  language: string
+): Promise<RenderResult> {
+  let imageMetaMissing = false;
+  const names = { artist: artist.name, shop: shop.name };
 
   const seo = new SeoHelper({
     siteName: `${shop.name} Shop`,
     rootTitle: shop.name,
-    defaultPageTitle: 'Welcome',
+    defaultPageTitle: translate(language, 'seo.welcome'),
     indexHtmlPath: INDEX_HTML_PATH,
     maintenanceHtmlPath: MAINTENANCE_HTML_PATH,
 
-    faviconUrl: `https://${shop.website}/favicon.ico`,
+    faviconUrl:
+      db.getMediaUrl(artist.id, 'favicon') ??
+      `https://${shop.website}/favicon.ico`,
     isServerDown: config.get('SERVER_MAINTENANCE_MODE') === 'true',
+    templates,
+    imageMetaLookup: (imageUrl) => {
+      const meta = db.getImageMeta(imageUrl);
+      if (!meta) imageMetaMissing = true;
+      return meta;
+    },
   });
 
-  const url = `https://${req.get('host')}${req.originalUrl}`;
-  const imageUrl = encodeURI(`${API_URL}/shops/${shop.id}/photo`);
+  // Each language version is canonical for itself, so hreflang alternates
+  // aren't dropped. What crawlers get without ?lang= keeps the bare URL
+  const pageUrl = `${baseUrl}${req.path}`;
+  const defaultLanguage = toLanguage(shop.locale) || FALLBACK_LANGUAGE;
+  const languageUrl = (lang: string) =>
+    lang === defaultLanguage ? pageUrl : `${pageUrl}?lang=${lang}`;
+  const url = languageUrl(language);
+  let imageUrl = db.getShopImageUrl(shop.id);
 
-  let description = `Welcome to ${shop.name} — official shop of ${artist.name}. Discover exclusive merchandise and more!`;
+  let description = translate(language, 'seo.home.description', names);
   let customTitleSegment = '';
+  let ogType: OgType = 'website';
+  let price: { amount: number; currency: string } | undefined;
+
+  const groupId = matchPathParam(req.path, /^\/product\/([^/]+)\/?$/);
+  const product = groupId ? db.getProduct(shop.id, groupId) : undefined;
+
+  const categorySlug = matchPathParam(req.path, /^\/category\/([^/]+)\/?$/);
+  const categoryProducts = categorySlug
+    ? filterByCategory(db.getProducts(shop.id), categorySlug)
+    : [];
+  const category = buildCategories(categoryProducts)[0];
+
+  if (product) {
+    const cover = product.variants.find((v) => v.image);
+    const cheapest = product.variants.reduce<VariantEntity | undefined>(
+      (min, v) => (!min || v.price < min.price ? v : min),
+      undefined
+    );
 
-  if (req.path !== '/') {
+    customTitleSegment = product.title;
+    description = truncate(
+      product.description ||
+        translate(language, 'seo.product.description', {
+          ...names,
+          product: product.title,
+        }),
+      200
+    );
+    if (cover) imageUrl = cover.image;
+    if (cheapest) {
+      price = { amount: cheapest.price, currency: cheapest.currency };
+    }
+    ogType = 'product';
+  } else if (/^\/about\/?$/.test(req.path)) {
+    customTitleSegment = translate(language, 'seo.about.title', names);
+    description = truncate(
+      artist.bio || translate(language, 'seo.about.description', names),
+      200
+    );
+    if (artist.hasAvatar) {
+      imageUrl = db.getArtistImageUrl(artist.id, 'avatar');
+    }
+    ogType = 'profile';
+  } else if (category) {
+    const cover = categoryProducts
+      .flatMap((p) => p.variants)
+      .find((v) => v.image);
+
+    customTitleSegment = category.name;
+    description = translatePlural(
+      language,
+      'seo.category.description',
+      category.productCount,
+      { ...names, category: category.name }
+    );
+    if (cover) imageUrl = cover.image;
+  } else if (req.path !== '/') {
     const formattedTitle = seo.formatTitle(req.path.split('/')[1] || '');
-    description = `Explore '${formattedTitle}' on ${shop.name} Shop.`;
+    description = translate(language, 'seo.page.description', {
+      ...names,
+      page: formattedTitle,
+    });
     customTitleSegment = formattedTitle;
   }
 
@@ -186,12 +580,83 @@ app.get(/.*/, async (req: Request, res: Response) => {
     description,
     imageUrl,
     customTitleSegment,
+    ogType,
+    price,
+    themeColor: shop.theme.primaryColor,
+    locale: {
+      language,
+      ogLocale: toOgLocale(language, shop.locale),
+      alternates: SUPPORTED_LANGUAGES.map((lang) => ({
+        language: lang,
+        ogLocale: toOgLocale(lang, shop.locale),
+        url: languageUrl(lang),
+      })),
+      defaultUrl: pageUrl,
+    },
+    structuredData: {
+      baseUrl,
+      artist,
+      shop,
+      socials: db.getSocials(artist.id),
+      product,
+      currency: price?.currency ?? shop.currency,
+    },
   });
 
-  res.send(html);
+  // Pages rendered with placeholder image sizes are re-rendered once cached.
+  // 404s aren't cached so scanners probing random paths can't fill the cache
+  const status =
+    (groupId && !product) || (categorySlug && !category) ? 404 : 200;
+  return {
+    html,
+    status,
+    cacheable: status === 200 && !imageMetaMissing,
+  };
+}
+
+app.get(/.*/, async (req: Request, res: Response) => {
+  const storefront = resolveStorefront(req);
+
+  if (!storefront) {
+    logger.warn('No shop mapped to host', { host: req.hostname });
+    unknownHostRequests.inc();
+    res
+      .status(404)
+      .type('text/plain')
+      .send(`No shop is configured for ${req.hostname}.`);
+    return;
+  }
+
+  const artistId = storefront.artist.id;
+  const language = resolveLanguage(req, storefront.shop.locale);
+  const cacheKey = RenderCache.key(req.hostname, req.path, language);
+  let page = renderCache.get(cacheKey, artistId, templates.version);
+
+  if (!page) {
+    const { html, status, cacheable } = await renderPage(
+      req,
+      storefront,
+      language
+    );
+    page = cacheable
+      ? renderCache.set(cacheKey, artistId, html, status, templates.version)
+      : { html, status, etag: '', artistId, version: templates.version };
+  }
+
+  res.status(page.status);
+  res.vary('Accept-Language').vary('Cookie');
+  if (page.etag) {
+    res.setHeader('ETag', page.etag);
+    res.setHeader('Cache-Control', 'no-cache');
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+  }
+  res.send(page.html);
 });
 
-// 🚀 Startup
+// 🚀 Startup: serves the persisted database while the first sync runs
 async function start() {
   await db.ready();
 
@@ -199,7 +664,7 @@ async function start() {
   const HOST = config.get('HOST');
 
   app.listen(PORT, HOST, () => {
-    console.log(`🚀 Server is running at http://${HOST}:${PORT}`);
+    logger.info('Server is running', { url: `http://${HOST}:${PORT}` });
   });
 }
 
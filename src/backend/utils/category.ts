@@ -0,0 +1,49 @@
+import { CategoryEntity } from '../interfaces/category';
+import { ProductEntity } from '../interfaces/product';
+import { slugify } from './slugify';
+
+/**
+ * Feeds often use Google-style hierarchies ("Apparel > Hoodies"); the most
+ * specific segment names the category.
+ */
+export function getCategoryName(productType: string): string {
+  const segments = productType
+    .split('>')
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  return segments.pop() || 'Other';
+}
+
+export function getCategorySlug(productType: string): string {
+  return slugify(getCategoryName(productType));
+}
+
+export function buildCategories(products: ProductEntity[]): CategoryEntity[] {
+  const categories = new Map<string, CategoryEntity>();
+
+  for (const product of products) {
+    const slug = getCategorySlug(product.productType);
+    if (!slug) continue;
+
+    const category = categories.get(slug);
+    if (category) category.productCount++;
+    else {
+      categories.set(slug, {
+        slug,
+        name: getCategoryName(product.productType),
+        productCount: 1,
+      });
+    }
+  }
+
+  return Array.from(categories.values()).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+export function filterByCategory(
+  products: ProductEntity[],
+  slug: string
+): ProductEntity[] {
+  return products.filter((p) => getCategorySlug(p.productType) === slug);
+}
@@ -0,0 +1,44 @@
+export const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Spaces calls evenly so callers sharing one limiter never exceed
+ * `perSecond` starts per second. A rate of 0 disables the limit.
+ */
+export class RateLimiter {
+  private intervalMs: number;
+  private nextSlot = 0;
+
+  constructor(perSecond: number) {
+    this.intervalMs = perSecond > 0 ? 1000 / perSecond : 0;
+  }
+
+  async acquire(): Promise<void> {
+    if (!this.intervalMs) return;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    if (slot > now) await sleep(slot - now);
+  }
+}
+
+/** Maps items with at most `concurrency` calls in flight, keeping order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
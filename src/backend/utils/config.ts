@@ -13,6 +13,8 @@ export class Config {
       SERVER_MAINTENANCE_MODE: z.string().default('false'),
       HOST: z.string().default('0.0.0.0'),
       PORT: z.string().default('80'),
+      // debug | info | warn | error
+      LOG_LEVEL: z.string().default('info'),
       CORS_ALLOWED: z.string(),
 
       INDEX_HTML_PATH: z.string(),
@@ -20,12 +22,47 @@ export class Config {
 
       API_URL: z.string(),
       API_AUTH_TOKEN: z.string(),
+      API_TIMEOUT_MS: z.string().default('10000'),
+      API_RETRIES: z.string().default('2'),
+      // Consecutive API failures before calls fail fast for API_CIRCUIT_RESET_MS
+      API_CIRCUIT_FAILURE_THRESHOLD: z.string().default('5'),
+      API_CIRCUIT_RESET_MS: z.string().default('30000'),
 
       STATIC_DIR: z.string(),
       ASSETS_DIR: z.string(),
 
       DATABASE_PATH: z.string(),
       DATABASE_SYNC_INTERVAL_MS: z.string().default('300000'),
+      // Artists fetched in parallel during a full sync
+      SYNC_CONCURRENCY: z.string().default('4'),
+      // Global cap on API requests per second; 0 disables it
+      API_RATE_LIMIT_PER_SECOND: z.string().default('10'),
+      API_PAGE_SIZE: z.string().default('100'),
+
+      // Readiness fails once the last successful full sync is older than this
+      READINESS_MAX_SYNC_AGE_MS: z.string().default('900000'),
+      READINESS_API_TIMEOUT_MS: z.string().default('2000'),
+
+      SITEMAP_MAX_URLS: z.string().default('50000'),
+      IMAGE_META_TIMEOUT_MS: z.string().default('3000'),
+      // How long a failed image fetch is not retried
+      IMAGE_META_RETRY_MS: z.string().default('900000'),
+
+      RENDER_CACHE_MAX_ENTRIES: z.string().default('1000'),
+      RENDER_CACHE_DIR: z.string().default(''),
+
+      // Decoded artist/shop images; defaults to "media" next to the database
+      MEDIA_DIR: z.string().default(''),
+
+      ADMIN_API_TOKEN: z.string().default(''),
+      WEBHOOK_SECRET: z.string().default(''),
+
+      // JSON map of shop id -> { storeDomain, publicAccessToken, apiVersion, apiUrl? }
+      SHOPIFY_STOREFRONTS: z.string().default('{}'),
+
+      DEFAULT_CURRENCY: z.string().default('USD'),
+      DEFAULT_LOCALE: z.string().default('en-US'),
+      CURRENCY_RATES_PATH: z.string().default(''),
 
       S3_PUBLIC_BASE_URL: z.string().url(),
     });
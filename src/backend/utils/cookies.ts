@@ -0,0 +1,15 @@
+import { Request } from 'express';
+
+export function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.get('cookie') || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+
+    try {
+      return decodeURIComponent(value.join('=')) || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
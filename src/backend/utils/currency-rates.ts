@@ -0,0 +1,30 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { CurrencyRateTable } from '../interfaces/currency';
+
+const currencyCode = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/)
+  .transform((code) => code.toUpperCase());
+
+const rateTableSchema = z.object({
+  base: currencyCode,
+  rates: z.record(currencyCode, z.number().positive()),
+});
+
+/**
+ * Reads a locally maintained rate table such as
+ * {"base":"USD","rates":{"EUR":0.92,"GBP":0.79}}. Rates are units of each
+ * currency per one unit of the base currency.
+ */
+export function loadCurrencyRates(filePath: string): CurrencyRateTable {
+  const parsed = rateTableSchema.safeParse(
+    JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  );
+  if (!parsed.success) {
+    throw new Error(`Invalid currency rate table: ${parsed.error.message}`);
+  }
+
+  const { base, rates } = parsed.data;
+  return { base, rates: { ...rates, [base]: 1 } };
+}
@@ -0,0 +1,23 @@
+import { getDomain } from 'tldts';
+
+export function normalizeHostname(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '');
+}
+
+export function getApexDomain(hostname: string): string | undefined {
+  return getDomain(hostname, { allowPrivateDomains: true }) ?? undefined;
+}
+
+export function expandHostnames(value: string): string[] {
+  const hostname = normalizeHostname(value);
+  if (!hostname) return [];
+
+  const bare = hostname.replace(/^www\./, '');
+  return bare === getApexDomain(bare) ? [bare, `www.${bare}`] : [bare];
+}
@@ -0,0 +1,117 @@
+import he from 'he';
+import { FeedItem, ParsedPrice } from '../interfaces/product';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  '₽': 'RUB',
+  '₺': 'TRY',
+  '₪': 'ILS',
+  '₱': 'PHP',
+  '₫': 'VND',
+  R$: 'BRL',
+  A$: 'AUD',
+  C$: 'CAD',
+  kr: 'SEK',
+  zł: 'PLN',
+};
+
+export class FeedParser {
+  private defaultCurrency: string;
+
+  constructor(defaultCurrency = 'USD') {
+    this.defaultCurrency = defaultCurrency.toUpperCase();
+  }
+
+  private readTag(block: string, tag: string): string {
+    const escaped = tag.replace(':', '\\:');
+    const match = block.match(
+      new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, 'i')
+    );
+    if (!match) return '';
+
+    const raw = match[1].trim();
+    const cdata = raw.match(/^<!\[CDATA\[([\s\S]*?)\]\]>$/);
+    return (cdata ? cdata[1] : he.decode(raw)).trim();
+  }
+
+  /**
+   * Parses Google-style prices ("29.99 EUR") as well as symbol prefixes and
+   * comma decimals ("€1.299,00"). Without a recognisable currency the
+   * configured default is assumed.
+   */
+  parsePrice(value: string): ParsedPrice {
+    const code = value.match(/\b([A-Z]{3})\b/i)?.[1];
+    const symbol = Object.keys(CURRENCY_SYMBOLS)
+      .sort((a, b) => b.length - a.length)
+      .find((s) => value.includes(s));
+    const currency = code
+      ? code.toUpperCase()
+      : symbol
+        ? CURRENCY_SYMBOLS[symbol]
+        : this.defaultCurrency;
+
+    return { amount: this.parseAmount(value), currency };
+  }
+
+  private parseAmount(value: string): number {
+    const digits = value.replace(/[^0-9.,]/g, '');
+    const lastComma = digits.lastIndexOf(',');
+    const lastDot = digits.lastIndexOf('.');
+
+    // The right-most separator is the decimal mark when both appear; a lone
+    // comma is decimal unless it groups exactly three digits ("1,299")
+    let normalized: string;
+    if (lastComma > lastDot) {
+      const decimals = digits.length - lastComma - 1;
+      normalized =
+        lastDot === -1 && decimals === 3
+          ? digits.replace(/,/g, '')
+          : digits
+              .replace(/\./g, '')
+              .replace(/,(?=[^,]*$)/, '.')
+              .replace(/,/g, '');
+    } else {
+      normalized = digits.replace(/,/g, '');
+    }
+
+    return parseFloat(normalized) || 0;
+  }
+
+  private toPriceFields(value: string): Pick<FeedItem, 'price' | 'currency'> {
+    const { amount, currency } = this.parsePrice(value);
+    return { price: amount, currency };
+  }
+
+  parse(xml: string): FeedItem[] {
+    const blocks = xml.match(/<item(?:\s[^>]*)?>[\s\S]*?<\/item>/gi) || [];
+
+    return blocks
+      .map((block) => {
+        const id = this.readTag(block, 'g:id');
+        const title =
+          this.readTag(block, 'g:title') || this.readTag(block, 'title');
+
+        return {
+          id,
+          groupId: this.readTag(block, 'g:item_group_id') || id,
+          title,
+          description:
+            this.readTag(block, 'g:description') ||
+            this.readTag(block, 'description'),
+          link: this.readTag(block, 'g:link') || this.readTag(block, 'link'),
+          image:
+            this.readTag(block, 'g:additional_image_link') ||
+            this.readTag(block, 'g:image_link'),
+          ...this.toPriceFields(this.readTag(block, 'g:price') || '0'),
+          availability: this.readTag(block, 'g:availability'),
+          productType: this.readTag(block, 'g:product_type') || 'Other',
+        };
+      })
+      .filter((item) => item.id);
+  }
+}
@@ -1,9 +1,15 @@
 import { fetch } from 'undici';
+import { logger } from './logger';
+import { RateLimiter, sleep } from './concurrency';
 
 export interface HttpRequestConfig {
   headers?: Record<string, string>;
   params?: Record<string, string | number>;
   signal?: AbortSignal;
+  /** Per-attempt timeout, overrides the client default. */
+  timeoutMs?: number;
+  /** Retries after the first attempt; only idempotent methods retry. */
+  retries?: number;
 }
 
 export interface HttpResponse<T> {
@@ -11,15 +17,84 @@ export interface HttpResponse<T> {
   body: T;
 }
 
+export interface HttpClientOptions {
+  timeoutMs?: number;
+  retries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  /** Consecutive failures before the circuit for the base URL opens. */
+  circuitFailureThreshold?: number;
+  /** How long an open circuit rejects calls before letting one through. */
+  circuitResetMs?: number;
+  /** Shared limiter acquired before every attempt, retries included. */
+  rateLimiter?: RateLimiter;
+}
+
+export type HttpErrorCode =
+  | 'timeout'
+  | 'network'
+  | 'aborted'
+  | 'circuit_open'
+  | 'invalid_body';
+
+/**
+ * Thrown when no HTTP response could be obtained. Upstream error statuses
+ * are still returned as responses, so callers can tell the two apart.
+ */
+export class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: HttpErrorCode,
+    public readonly method: string,
+    public readonly url: string,
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  trialInFlight: boolean;
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Shared by every client pointing at the same API
+const circuits = new Map<string, Circuit>();
+
+const log = logger.child({ component: 'http-client' });
+
 export class HttpClient {
   private baseUrl: string;
   private headers: Record<string, string>;
   private defaultParams: Record<string, string | number>;
+  private timeoutMs: number;
+  private retries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private circuitFailureThreshold: number;
+  private circuitResetMs: number;
+  private rateLimiter?: RateLimiter;
 
   constructor(
     baseUrl: string,
     headers: Record<string, string> = {},
-    defaultParams: Record<string, string | number> = {}
+    defaultParams: Record<string, string | number> = {},
+    {
+      timeoutMs = 10_000,
+      retries = 2,
+      retryBaseDelayMs = 250,
+      retryMaxDelayMs = 5_000,
+      circuitFailureThreshold = 5,
+      circuitResetMs = 30_000,
+      rateLimiter,
+    }: HttpClientOptions = {}
   ) {
     if (!baseUrl) {
       throw new Error('Base URL is required');
@@ -28,6 +103,17 @@ export class HttpClient {
     this.baseUrl = baseUrl;
     this.headers = headers;
     this.defaultParams = defaultParams;
+    this.timeoutMs = timeoutMs;
+    this.retries = retries;
+    this.retryBaseDelayMs = retryBaseDelayMs;
+    this.retryMaxDelayMs = retryMaxDelayMs;
+    this.circuitFailureThreshold = circuitFailureThreshold;
+    this.circuitResetMs = circuitResetMs;
+    this.rateLimiter = rateLimiter;
+  }
+
+  getCircuitState(): CircuitState {
+    return circuits.get(this.baseUrl)?.state ?? 'closed';
   }
 
   private buildUrl(
@@ -47,12 +133,140 @@ export class HttpClient {
     return url.toString();
   }
 
+  private getCircuit(): Circuit {
+    let circuit = circuits.get(this.baseUrl);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        failures: 0,
+        openedAt: 0,
+        trialInFlight: false,
+      };
+      circuits.set(this.baseUrl, circuit);
+    }
+    return circuit;
+  }
+
+  /** Returns false while the circuit is open or its single trial is out. */
+  private acquireCircuit(circuit: Circuit): boolean {
+    if (circuit.state === 'open') {
+      if (Date.now() - circuit.openedAt < this.circuitResetMs) return false;
+      circuit.state = 'half_open';
+    }
+    if (circuit.state === 'half_open') {
+      if (circuit.trialInFlight) return false;
+      circuit.trialInFlight = true;
+    }
+    return true;
+  }
+
+  private recordOutcome(circuit: Circuit, ok: boolean) {
+    circuit.trialInFlight = false;
+    if (ok) {
+      if (circuit.state !== 'closed') {
+        log.info('Circuit closed', { baseUrl: this.baseUrl });
+      }
+      circuit.state = 'closed';
+      circuit.failures = 0;
+      return;
+    }
+
+    circuit.failures++;
+    if (
+      circuit.state === 'half_open' ||
+      circuit.failures >= this.circuitFailureThreshold
+    ) {
+      if (circuit.state !== 'open') {
+        log.warn('Circuit opened', {
+          baseUrl: this.baseUrl,
+          failures: circuit.failures,
+          resetMs: this.circuitResetMs,
+        });
+      }
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+    }
+  }
+
+  // Exponential backoff with full jitter
+  private backoffDelay(attempt: number): number {
+    const cap = Math.min(
+      this.retryMaxDelayMs,
+      this.retryBaseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.round(Math.random() * cap);
+  }
+
+  /** Retry-After as delta-seconds or an HTTP date, in milliseconds. */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private async attempt<T>(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body: string | undefined,
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    attempts: number
+  ): Promise<{ response: HttpResponse<T>; retryAfter: string | null }> {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const fail = (message: string, code: HttpErrorCode) =>
+      new HttpRequestError(message, code, method, url, attempts);
+
+    let response: Awaited<ReturnType<typeof fetch>>;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw fail('Request aborted', 'aborted');
+      if (timeout.aborted) {
+        throw fail(`Request timed out after ${timeoutMs}ms`, 'timeout');
+      }
+      const cause = (err as Error & { cause?: Error }).cause;
+      throw fail(cause?.message || (err as Error).message, 'network');
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    try {
+      const responseBody = contentType.includes('application/json')
+        ? await response.json()
+        : await response.text();
+      return {
+        response: { status: response.status, body: responseBody as T },
+        retryAfter: response.headers.get('retry-after'),
+      };
+    } catch (err) {
+      if (signal?.aborted) throw fail('Request aborted', 'aborted');
+      if (timeout.aborted) {
+        throw fail(`Request timed out after ${timeoutMs}ms`, 'timeout');
+      }
+      throw fail(
+        `Invalid response body: ${(err as Error).message}`,
+        'invalid_body'
+      );
+    }
+  }
+
+  /**
+   * Sends a request through the circuit breaker. Idempotent methods retry
+   * network failures, timeouts, 429 and 5xx; the last upstream response is
+   * returned once retries run out, failures without one throw.
+   */
   private async request<T>(
     method: string,
     path: string,
     data?: unknown,
-    config: HttpRequestConfig = {},
-    fallbackMessage = 'Request failed'
+    config: HttpRequestConfig = {}
   ): Promise<HttpResponse<T>> {
     const url = this.buildUrl(path, config.params);
 
@@ -66,64 +280,105 @@ export class HttpClient {
       headers['Content-Type'] = 'application/json';
     }
 
-    try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body,
-        signal: config.signal,
-      });
+    const timeoutMs = config.timeoutMs ?? this.timeoutMs;
+    const maxAttempts =
+      1 +
+      (IDEMPOTENT_METHODS.has(method) ? (config.retries ?? this.retries) : 0);
+    const circuit = this.getCircuit();
 
-      const contentType = response.headers.get('content-type') || '';
-      const responseBody = contentType.includes('application/json')
-        ? await response.json()
-        : await response.text();
+    for (let attempt = 1; ; attempt++) {
+      if (!this.acquireCircuit(circuit)) {
+        throw new HttpRequestError(
+          `Circuit open for ${this.baseUrl}`,
+          'circuit_open',
+          method,
+          url,
+          attempt - 1
+        );
+      }
 
-      return {
-        status: response.status,
-        body: responseBody as T,
-      };
-    } catch (err: any) {
-      return {
-        status: 500,
-        body: { error: err.message || fallbackMessage } as any,
-      };
+      let delayMs: number;
+      try {
+        await this.rateLimiter?.acquire();
+        const { response, retryAfter } = await this.attempt<T>(
+          method,
+          url,
+          headers,
+          body,
+          timeoutMs,
+          config.signal,
+          attempt
+        );
+        // 429 means we're throttled, not that the upstream is unhealthy
+        this.recordOutcome(circuit, response.status < 500);
+
+        const retryable = response.status === 429 || response.status >= 500;
+        if (!retryable || attempt >= maxAttempts) return response;
+
+        const retryAfterMs = this.parseRetryAfter(retryAfter);
+        // Waiting longer than our backoff cap would stall the caller
+        if (retryAfterMs > this.retryMaxDelayMs) return response;
+        delayMs = retryAfterMs ?? this.backoffDelay(attempt);
+        log.warn('Retrying request', {
+          method,
+          url,
+          attempt,
+          status: response.status,
+          delayMs,
+        });
+      } catch (err) {
+        const error = err as HttpRequestError;
+        if (error.code === 'aborted') {
+          circuit.trialInFlight = false;
+          throw error;
+        }
+        this.recordOutcome(circuit, false);
+        if (attempt >= maxAttempts) throw error;
+
+        delayMs = this.backoffDelay(attempt);
+        log.warn('Retrying request', {
+          method,
+          url,
+          attempt,
+          code: error.code,
+          error: error.message,
+          delayMs,
+        });
+      }
+
+      await sleep(delayMs);
     }
   }
 
   async get<T>(
     path: string,
-    config: HttpRequestConfig = {},
-    fallbackMessage = 'Failed to fetch data'
+    config: HttpRequestConfig = {}
   ): Promise<HttpResponse<T>> {
-    return this.request<T>('GET', path, undefined, config, fallbackMessage);
+    return this.request<T>('GET', path, undefined, config);
   }
 
   async post<T, D = unknown>(
     path: string,
     data: D,
-    config: HttpRequestConfig = {},
-    fallbackMessage = 'Failed to post data'
+    config: HttpRequestConfig = {}
   ): Promise<HttpResponse<T>> {
-    return this.request<T>('POST', path, data, config, fallbackMessage);
+    return this.request<T>('POST', path, data, config);
   }
 
   async put<T, D = unknown>(
     path: string,
     data: D,
-    config: HttpRequestConfig = {},
-    fallbackMessage = 'Failed to update data'
+    config: HttpRequestConfig = {}
   ): Promise<HttpResponse<T>> {
-    return this.request<T>('PUT', path, data, config, fallbackMessage);
+    return this.request<T>('PUT', path, data, config);
   }
 
   async delete<T, D = unknown>(
     path: string,
     data?: D,
-    config: HttpRequestConfig = {},
-    fallbackMessage = 'Failed to delete data'
+    config: HttpRequestConfig = {}
   ): Promise<HttpResponse<T>> {
-    return this.request<T>('DELETE', path, data, config, fallbackMessage);
+    return this.request<T>('DELETE', path, data, config);
   }
 
   normalizeStatus(status: number): number {
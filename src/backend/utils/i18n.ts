@@ -0,0 +1,87 @@
+import { Request } from 'express';
+import { de } from '../locales/de';
+import { en, MessageKey, Messages } from '../locales/en';
+import { es } from '../locales/es';
+import { fr } from '../locales/fr';
+import { readCookie } from './cookies';
+
+export type { MessageKey, Messages };
+
+export const LANGUAGE_COOKIE = 'lang';
+
+const CATALOGS: Record<string, Messages> = { en, de, fr, es };
+
+export const SUPPORTED_LANGUAGES = Object.keys(CATALOGS);
+export const FALLBACK_LANGUAGE = 'en';
+
+// Region used for og:locale when the shop locale names a different language
+const DEFAULT_REGIONS: Record<string, string> = {
+  en: 'US',
+  de: 'DE',
+  fr: 'FR',
+  es: 'ES',
+};
+
+/** Maps a BCP 47 tag ("de-AT", "fr") to a supported catalog language. */
+export function toLanguage(locale?: string): string | undefined {
+  const language = (locale || '').trim().split(/[-_]/)[0].toLowerCase();
+  return CATALOGS[language] ? language : undefined;
+}
+
+export function getMessages(language: string): Messages {
+  return CATALOGS[language] || CATALOGS[FALLBACK_LANGUAGE];
+}
+
+export function translate(
+  language: string,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const template = getMessages(language)[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/** Picks the `.one`/`.other` form of a pluralized key for the given count. */
+export function translatePlural(
+  language: string,
+  baseKey: string,
+  count: number,
+  params: Record<string, string | number> = {}
+): string {
+  const rule = new Intl.PluralRules(language).select(count);
+  const key = `${baseKey}.${rule}`;
+  const messages = getMessages(language);
+  return translate(
+    language,
+    (key in messages ? key : `${baseKey}.other`) as MessageKey,
+    { count, ...params }
+  );
+}
+
+/**
+ * An explicit `?lang=` wins, then the language cookie set by the UI, then
+ * the browser's Accept-Language, then the shop's default locale.
+ */
+export function resolveLanguage(req: Request, shopLocale?: string): string {
+  const query = typeof req.query.lang === 'string' ? req.query.lang : '';
+  const accepted = req.acceptsLanguages(...SUPPORTED_LANGUAGES);
+
+  return (
+    toLanguage(query) ||
+    toLanguage(readCookie(req, LANGUAGE_COOKIE)) ||
+    (req.get('accept-language') && accepted ? accepted : undefined) ||
+    toLanguage(shopLocale) ||
+    FALLBACK_LANGUAGE
+  );
+}
+
+/** Open Graph locales use underscores, e.g. "de_DE". */
+export function toOgLocale(language: string, shopLocale?: string): string {
+  const [shopLanguage, region] = (shopLocale || '').split(/[-_]/);
+  if (region && shopLanguage.toLowerCase() === language) {
+    return `${language}_${region.toUpperCase()}`;
+  }
+  return `${language}_${DEFAULT_REGIONS[language] || language.toUpperCase()}`;
+}
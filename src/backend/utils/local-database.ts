@@ -1,10 +1,30 @@
 import Database from 'better-sqlite3';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { imageSize } from 'image-size';
+import { fetch } from 'undici';
 import { Config } from './config';
-import { HttpClient } from './http-client';
+import { HttpClient, HttpResponse } from './http-client';
+import { mapWithConcurrency, RateLimiter } from './concurrency';
+import { FeedParser } from './feed-parser';
+import { DEFAULT_SHOP_THEME, parseShopTheme } from './shop-theme';
+import { MediaStore } from './media-store';
+import { logger } from './logger';
+import {
+  imageFetchDuration,
+  syncDuration,
+  syncLastSuccess,
+  syncRuns,
+} from './metrics';
+import { expandHostnames, getApexDomain, normalizeHostname } from './domain';
 
-import { ArtistApiDto, ArtistEntity, ArtistRow } from '../interfaces/artist';
+import {
+  ArtistApiDto,
+  ArtistEntity,
+  ArtistProfileDto,
+  ArtistRow,
+} from '../interfaces/artist';
 import { ShopApiDto, ShopEntity, ShopRow } from '../interfaces/shop';
 import { SocialApiDto, SocialEntity, SocialRow } from '../interfaces/social';
 import {
@@ -12,15 +32,59 @@ import {
   LatestReleasesEntity,
   LatestReleasesRow,
 } from '../interfaces/latest-releases';
+import {
+  FeedItem,
+  ProductEntity,
+  ProductRow,
+  VariantEntity,
+  VariantRow,
+} from '../interfaces/product';
+import { DomainEntity, DomainRow } from '../interfaces/domain';
+import {
+  ArtistSnapshot,
+  ArtistSnapshotRow,
+  SyncDiff,
+  SyncError,
+  SyncRunEntity,
+  SyncRunRow,
+  SyncStatus,
+  DataFreshness,
+  PaginatedApiDto,
+  SyncProgress,
+} from '../interfaces/sync';
+import { ImageMeta, ImageMetaRow } from '../interfaces/image-meta';
+import { CurrencyRateRow, CurrencyRates } from '../interfaces/currency';
+import { loadCurrencyRates } from './currency-rates';
+import { MediaKind, MediaRow, StoredMedia } from '../interfaces/media';
+
+const SYNC_RUN_HISTORY = 100;
+const IMAGE_META_BATCH_SIZE = 5;
+const WEBHOOK_DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
 
 export class LocalDatabase {
   private static instance: LocalDatabase;
   private db: Database.Database;
   private config: Config;
   private http: HttpClient;
+  private feedParser: FeedParser;
+  private media: MediaStore;
+  private log = logger.child({ component: 'local-db' });
   private syncIntervalMs: number;
   private syncing = false;
+  private syncProgress?: SyncProgress;
+  private syncConcurrency: number;
+  private pageSize: number;
+  private pendingArtistIds = new Set<string>();
+  // Webhook deliveries waiting on a queued artist sync, keyed by artist
+  private pendingDeliveries = new Map<string, Set<string>>();
+  private imageMetaInFlight = new Set<string>();
+  private changeListeners: ((artistIds: string[]) => void)[] = [];
+  private imageMetaTimeoutMs: number;
+  private imageMetaRetryMs: number;
+  private apiTimeoutMs: number;
   private readyPromise?: Promise<void>;
+  // Outcome of the latest full sync in this process, unset until one finishes
+  private lastFullSyncStatus?: SyncStatus;
 
   private constructor() {
     this.config = new Config();
@@ -28,15 +92,46 @@ export class LocalDatabase {
       this.config.get('DATABASE_SYNC_INTERVAL_MS'),
       10
     );
+    this.imageMetaRetryMs = parseInt(
+      this.config.get('IMAGE_META_RETRY_MS'),
+      10
+    );
+    this.imageMetaTimeoutMs = parseInt(
+      this.config.get('IMAGE_META_TIMEOUT_MS'),
+      10
+    );
+    this.feedParser = new FeedParser(this.config.get('DEFAULT_CURRENCY'));
     const dbPath = this.config.get('DATABASE_PATH');
     const dbDir = path.dirname(dbPath);
 
     if (!fs.existsSync(dbDir)) fs.mkdirSync(dbDir, { recursive: true });
     this.db = new Database(dbPath);
+    this.media = new MediaStore(
+      this.config.get('MEDIA_DIR') || path.join(dbDir, 'media')
+    );
 
-    this.http = new HttpClient(this.config.get('API_URL'), {
-      Authorization: `Bearer ${this.config.get('TRUSTED_CLIENT_AUTH_TOKEN')}`,
-    });
+    this.apiTimeoutMs = parseInt(this.config.get('API_TIMEOUT_MS'), 10);
+    this.syncConcurrency = parseInt(this.config.get('SYNC_CONCURRENCY'), 10);
+    this.pageSize = parseInt(this.config.get('API_PAGE_SIZE'), 10);
+    this.http = new HttpClient(
+      this.config.get('API_URL'),
+      {
+        Authorization: `Bearer ${this.config.get('TRUSTED_CLIENT_AUTH_TOKEN')}`,
+      },
+      {},
+      {
+        timeoutMs: this.apiTimeoutMs,
+        retries: parseInt(this.config.get('API_RETRIES'), 10),
+        circuitFailureThreshold: parseInt(
+          this.config.get('API_CIRCUIT_FAILURE_THRESHOLD'),
+          10
+        ),
+        circuitResetMs: parseInt(this.config.get('API_CIRCUIT_RESET_MS'), 10),
+        rateLimiter: new RateLimiter(
+          parseFloat(this.config.get('API_RATE_LIMIT_PER_SECOND'))
+        ),
+      }
+    );
   }
 
   public static getInstance(): LocalDatabase {
@@ -44,16 +139,57 @@ export class LocalDatabase {
     return LocalDatabase.instance;
   }
 
+  /**
+   * Resolves once the persisted database can be served. The first sync runs
+   * in the background so an API outage doesn't delay startup.
+   */
   public async ready(): Promise<void> {
     if (this.readyPromise) return this.readyPromise;
     this.readyPromise = (async () => {
       this.createTables();
-      await this.fetchAndStoreAll();
-      this.startSyncSchedule();
+
+      const artistCount = this.countArtists();
+      const lastSuccessAt = this.getLastSuccessfulSync()?.finishedAt ?? null;
+      if (artistCount) {
+        this.log.info('Serving persisted data while the first sync runs', {
+          artistCount,
+          lastSuccessAt,
+        });
+      } else {
+        this.log.warn('No persisted data, shops are empty until a sync lands');
+      }
+
+      void this.syncAll().finally(() => this.startSyncSchedule());
     })();
     return this.readyPromise;
   }
 
+  public getDataFreshness(): DataFreshness {
+    const status = this.lastFullSyncStatus;
+    return {
+      stale: !status || status === 'failed' || status === 'skipped',
+      initialSyncPending: !status,
+      lastFullSyncStatus: status ?? null,
+    };
+  }
+
+  private trackFreshness(status: SyncStatus) {
+    const wasStale = this.getDataFreshness().stale;
+    const wasPending = !this.lastFullSyncStatus;
+    this.lastFullSyncStatus = status;
+    const { stale } = this.getDataFreshness();
+
+    if (stale && (wasPending || !wasStale)) {
+      this.log.warn('Stale-data mode: serving the last persisted database', {
+        status,
+        artistCount: this.countArtists(),
+        lastSuccessAt: this.getLastSuccessfulSync()?.finishedAt ?? null,
+      });
+    } else if (!stale && wasStale && !wasPending) {
+      this.log.info('Left stale-data mode', { status });
+    }
+  }
+
   private createTables() {
     this.db
       .prepare(
@@ -97,56 +233,815 @@ export class LocalDatabase {
     `
       )
       .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS products (
+        shopId TEXT, groupId TEXT, title TEXT, description TEXT,
+        productType TEXT, position INTEGER,
+        PRIMARY KEY (shopId, groupId)
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS variants (
+        shopId TEXT, id TEXT, groupId TEXT, title TEXT, link TEXT, image TEXT,
+        price REAL, availability TEXT, position INTEGER,
+        PRIMARY KEY (shopId, id)
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS domains (
+        hostname TEXT PRIMARY KEY, shopId TEXT, artistId TEXT,
+        isCanonical INTEGER
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `CREATE INDEX IF NOT EXISTS idx_domains_shop ON domains (shopId)`
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS artist_snapshots (
+        artistId TEXT PRIMARY KEY, hash TEXT, syncedAt TEXT
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS sync_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, startedAt TEXT, finishedAt TEXT,
+        durationMs INTEGER, status TEXT, artistCount INTEGER,
+        added TEXT, removed TEXT, changed TEXT, errors TEXT
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY, receivedAt INTEGER
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS image_meta (
+        url TEXT PRIMARY KEY, etag TEXT, lastModified TEXT, contentHash TEXT,
+        type TEXT, width INTEGER, height INTEGER, fetchedAt TEXT
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS currency_rates (
+        currency TEXT PRIMARY KEY, rate REAL, base TEXT, updatedAt TEXT
+      )
+    `
+      )
+      .run();
+
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS media (
+        ownerId TEXT, kind TEXT, artistId TEXT, file TEXT, type TEXT,
+        size INTEGER, width INTEGER, height INTEGER,
+        PRIMARY KEY (ownerId, kind)
+      )
+    `
+      )
+      .run();
+
+    this.ensureColumn('sync_runs', 'scope', `TEXT DEFAULT 'all'`);
+    this.ensureColumn('shops', 'syncedAt', 'TEXT');
+    this.ensureColumn('shops', 'canonicalDomain', 'TEXT');
+    this.ensureColumn('products', 'syncedAt', 'TEXT');
+    this.ensureColumn('products', 'firstSeenAt', 'TEXT');
+    this.ensureColumn('variants', 'currency', 'TEXT');
+    this.ensureColumn('shops', 'currency', 'TEXT');
+    this.ensureColumn('shops', 'locale', 'TEXT');
+    this.ensureColumn('shops', 'theme', 'TEXT');
+    this.ensureColumn('image_meta', 'failedAt', 'TEXT');
+  }
+
+  private ensureColumn(table: string, column: string, definition: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as {
+      name: string;
+    }[];
+    if (columns.some((c) => c.name === column)) return;
+    this.db
+      .prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+      .run();
   }
 
   private async fetchAndStoreAll() {
+    const startedAt = Date.now();
+    let artistCount = 0;
+    let errors: SyncError[] = [];
+    let diff: SyncDiff = { added: [], removed: [], changed: [] };
+
+    this.refreshCurrencyRates();
+
     try {
-      const artistsRes = await this.http.get<ArtistApiDto[]>('/artists', {
-        headers: { active: 'true' },
+      const artists = (await this.fetchActiveArtists()).filter((a) =>
+        this.isValidArtist(a)
+      );
+      artistCount = artists.length;
+      if (!artists.length) {
+        this.log.warn('Sync skipped: API returned no active artists');
+        this.recordSyncRun(startedAt, 'skipped', 0, diff, errors);
+        return;
+      }
+
+      const snapshots = await this.fetchArtistSnapshots(artists, errors);
+
+      if (!snapshots.length) {
+        throw new Error('Every artist failed to sync');
+      }
+
+      const listedIds = new Set(artists.map((a) => a.id));
+      const removedIds = this.getStoredArtistIds().filter(
+        (id) => !listedIds.has(id)
+      );
+
+      diff = this.applySnapshot(snapshots, removedIds);
+      await this.refreshImageMetaFor(snapshots);
+      this.recordSyncRun(
+        startedAt,
+        errors.length ? 'partial' : 'success',
+        artistCount,
+        diff,
+        errors
+      );
+
+      this.log.info('Sync completed', {
+        scope: 'all',
+        syncedArtists: snapshots.length,
+        artistCount: artists.length,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        durationMs: Date.now() - startedAt,
       });
-      const artists = artistsRes.status === 200 ? artistsRes.body : [];
-      if (!artists.length) return;
+      errors.forEach((e) =>
+        this.log.warn('Artist sync failed, kept last-known-good data', {
+          artistId: e.artistId,
+          artistName: e.artistName,
+          error: e.message,
+        })
+      );
+    } catch (err) {
+      errors = [...errors, { message: (err as Error).message }];
+      this.recordSyncRun(startedAt, 'failed', artistCount, diff, errors);
+      this.log.error('Sync failed, previous snapshot kept', {
+        scope: 'all',
+        err,
+      });
+    }
+  }
+
+  // Caps runaway pagination from an API that never reports a last page
+  private static readonly MAX_ARTIST_PAGES = 1000;
+
+  /**
+   * Walks every page of /artists. Any failed page fails the whole listing,
+   * since a partial roster would remove the missing artists. Responses
+   * without totalPages or nextCursor keep paging while pages come back full.
+   */
+  private async fetchActiveArtists(): Promise<ArtistApiDto[]> {
+    const artists = new Map<string, ArtistApiDto>();
+    let skipped = 0;
+    let page = 1;
+    let cursor: string | undefined;
+
+    for (; page <= LocalDatabase.MAX_ARTIST_PAGES; page++) {
+      const params: Record<string, string | number> = {
+        page,
+        limit: this.pageSize,
+      };
+      if (cursor) params.cursor = cursor;
+
+      const res = await this.http.get<
+        ArtistApiDto[] | PaginatedApiDto<ArtistApiDto>
+      >('/artists', { headers: { active: 'true' }, params });
+      const body = res.body;
+      const items = Array.isArray(body) ? body : body?.data;
+      if (res.status !== 200 || !Array.isArray(items)) {
+        throw new Error(
+          `Artist list request failed with status ${res.status} on page ${page}`
+        );
+      }
+
+      const knownCount = artists.size;
+      for (const artist of items) {
+        if (typeof artist?.id === 'string' && artist.id) {
+          artists.set(artist.id, artist);
+        } else {
+          skipped++;
+        }
+      }
+
+      const envelope = Array.isArray(body) ? undefined : body;
+      if (envelope?.nextCursor) {
+        cursor = envelope.nextCursor;
+      } else if (envelope?.totalPages) {
+        if ((envelope.page ?? page) >= envelope.totalPages) break;
+      } else if (
+        // A short page is the last one. An API that ignores `limit` returns
+        // everything at once, or repeats the same page when asked for more
+        items.length !== this.pageSize ||
+        artists.size === knownCount
+      ) {
+        break;
+      }
+    }
+
+    if (page > LocalDatabase.MAX_ARTIST_PAGES) {
+      throw new Error(
+        `Artist list exceeded ${LocalDatabase.MAX_ARTIST_PAGES} pages`
+      );
+    }
+    if (skipped) {
+      this.log.warn('Skipped artist list entries without an id', { skipped });
+    }
+    return [...artists.values()];
+  }
+
+  /**
+   * Fetches artist snapshots through the sync pool. Failures are collected
+   * into `errors` so one broken artist doesn't stop the rest.
+   */
+  private async fetchArtistSnapshots(
+    artists: ArtistApiDto[],
+    errors: SyncError[]
+  ): Promise<ArtistSnapshot[]> {
+    const progress: SyncProgress = {
+      scope: 'all',
+      startedAt: new Date().toISOString(),
+      total: artists.length,
+      completed: 0,
+      failed: 0,
+    };
+    this.syncProgress = progress;
+    // Roughly every 10%, so large rosters don't flood the log
+    const logEvery = Math.max(1, Math.ceil(artists.length / 10));
+
+    try {
+      const results = await mapWithConcurrency(
+        artists,
+        this.syncConcurrency,
+        async (artist) => {
+          let snapshot: ArtistSnapshot | undefined;
+          try {
+            snapshot = await this.fetchArtistSnapshot(artist);
+          } catch (err) {
+            progress.failed++;
+            errors.push({
+              artistId: artist.id,
+              artistName: artist.name,
+              message: (err as Error).message,
+            });
+          }
+
+          progress.completed++;
+          if (
+            progress.completed % logEvery === 0 ||
+            progress.completed === progress.total
+          ) {
+            this.log.info('Sync progress', {
+              completed: progress.completed,
+              total: progress.total,
+              failed: progress.failed,
+            });
+          }
+          return snapshot;
+        }
+      );
+      return results.filter(Boolean);
+    } finally {
+      this.syncProgress = undefined;
+    }
+  }
+
+  /** Reloads the local rate table; a bad file keeps the previous rates. */
+  private refreshCurrencyRates() {
+    const ratesPath = this.config.get('CURRENCY_RATES_PATH');
+    if (!ratesPath) return;
+
+    try {
+      const { base, rates } = loadCurrencyRates(ratesPath);
+      const updatedAt = new Date().toISOString();
+      const insert = this.db.prepare(
+        `INSERT INTO currency_rates (currency, rate, base, updatedAt) VALUES (?, ?, ?, ?)`
+      );
 
       this.db.transaction(() => {
-        this.db.prepare('DELETE FROM artists').run();
-        this.db.prepare('DELETE FROM socials').run();
-        this.db.prepare('DELETE FROM shops').run();
-        this.db.prepare('DELETE FROM latest_releases').run();
+        this.db.prepare(`DELETE FROM currency_rates`).run();
+        Object.entries(rates).forEach(([currency, rate]) =>
+          insert.run(currency, rate, base, updatedAt)
+        );
       })();
+    } catch (err) {
+      this.log.error('Currency rates not refreshed, previous rates kept', {
+        path: ratesPath,
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  private async fetchAndStoreArtist(
+    artistId: string,
+    deliveryIds: string[] = []
+  ) {
+    const startedAt = Date.now();
+    let diff: SyncDiff = { added: [], removed: [], changed: [] };
+
+    try {
+      const artistRes = await this.http.get<ArtistApiDto>(
+        `/artists/${encodeURIComponent(artistId)}`
+      );
+
+      if (artistRes.status === 404 || artistRes.body?.isActive === false) {
+        diff = this.applySnapshot([], [artistId]);
+      } else {
+        this.assertOk(artistRes, 'Artist');
+        if (!this.isValidArtist(artistRes.body)) {
+          throw new Error('Artist response is missing an id or name');
+        }
+        const snapshot = await this.fetchArtistSnapshot(artistRes.body);
+        diff = this.applySnapshot([snapshot], []);
+        await this.refreshImageMetaFor([snapshot]);
+      }
+
+      this.recordSyncRun(startedAt, 'success', 1, diff, [], artistId);
+      deliveryIds.forEach((id) => this.recordWebhookDelivery(id));
+      this.log.info('Sync completed', {
+        scope: 'artist',
+        artistId,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (err) {
+      const errors = [{ artistId, message: (err as Error).message }];
+      this.recordSyncRun(startedAt, 'failed', 1, diff, errors, artistId);
+      this.log.error('Artist sync failed, previous data kept', {
+        scope: 'artist',
+        artistId,
+        err,
+      });
+    }
+  }
+
+  private async runExclusive(task: () => Promise<void>): Promise<boolean> {
+    if (this.syncing) return false;
+    this.syncing = true;
+    try {
+      await task();
+    } finally {
+      this.syncing = false;
+    }
+    void this.drainArtistQueue();
+    return true;
+  }
 
-      for (const artist of artists) {
+  private async drainArtistQueue() {
+    const [artistId] = this.pendingArtistIds;
+    if (!artistId || this.syncing) return;
+
+    this.pendingArtistIds.delete(artistId);
+    const deliveryIds = [...(this.pendingDeliveries.get(artistId) ?? [])];
+    this.pendingDeliveries.delete(artistId);
+    await this.runExclusive(() =>
+      this.fetchAndStoreArtist(artistId, deliveryIds)
+    );
+  }
+
+  /**
+   * Schedules a single-artist sync. Requests made while another sync is
+   * running are de-duplicated and processed once it finishes. A webhook
+   * delivery id is only recorded once the sync succeeds, so a redelivery
+   * after a failed sync is processed again.
+   */
+  public queueArtistSync(artistId: string, deliveryId?: string) {
+    this.pendingArtistIds.add(artistId);
+    if (deliveryId) {
+      const ids = this.pendingDeliveries.get(artistId) ?? new Set<string>();
+      this.pendingDeliveries.set(artistId, ids.add(deliveryId));
+    }
+    void this.drainArtistQueue();
+  }
+
+  public isSyncing(): boolean {
+    return this.syncing;
+  }
+
+  /** Artist progress of the running full sync, if any. */
+  public getSyncProgress(): SyncProgress | undefined {
+    return this.syncProgress && { ...this.syncProgress };
+  }
+
+  /** Runs a full sync now; resolves to false if another sync is running. */
+  public syncAll(): Promise<boolean> {
+    return this.runExclusive(() => this.fetchAndStoreAll());
+  }
+
+  /** Re-fetches a single artist; resolves to false if a sync is running. */
+  public syncArtist(artistId: string): Promise<boolean> {
+    return this.runExclusive(() => this.fetchAndStoreArtist(artistId));
+  }
+
+  private isValidArtist(a: ArtistApiDto): boolean {
+    return Boolean(a && typeof a.id === 'string' && a.id && a.name);
+  }
+
+  private assertOk(res: HttpResponse<unknown>, resource: string) {
+    if (res.status < 200 || res.status >= 300) {
+      throw new Error(`${resource} request failed with status ${res.status}`);
+    }
+  }
+
+  private async fetchArtistSnapshot(
+    artist: ArtistApiDto
+  ): Promise<ArtistSnapshot> {
+    const [soc, shp, rel] = await Promise.all([
+      this.http.get<SocialApiDto[]>(`/socials?artistId=${artist.id}`),
+      this.http.get<ShopApiDto | ShopApiDto[]>(`/shops?artistId=${artist.id}`),
+      this.http.get<LatestReleasesApiDto>(
+        `/music-platforms/releases/latest?artistId=${artist.id}`
+      ),
+    ]);
+
+    this.assertOk(soc, 'Socials');
+    if (shp.status !== 404) this.assertOk(shp, 'Shop');
+    if (rel.status !== 404) this.assertOk(rel, 'Latest releases');
+
+    const shop =
+      shp.status === 404
+        ? undefined
+        : Array.isArray(shp.body)
+          ? shp.body[0]
+          : shp.body;
+    if (shop && !shop.id) throw new Error('Shop response is missing an id');
+
+    const socials = Array.isArray(soc.body) ? soc.body : [];
+    const releases = rel.status === 404 ? undefined : rel.body;
+    const feedItems = shop?.shopFeed
+      ? await this.fetchShopFeed(shop.shopFeed)
+      : [];
+
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ artist, socials, shop, releases, feedItems }))
+      .digest('hex');
+
+    return { artist, socials, shop, releases, feedItems, hash };
+  }
+
+  /**
+   * Swaps the freshly fetched snapshots in within a single transaction.
+   * Artists whose child requests failed keep the rows from the last sync.
+   */
+  private applySnapshot(
+    snapshots: ArtistSnapshot[],
+    removedIds: string[]
+  ): SyncDiff {
+    const now = new Date().toISOString();
+    const previous = new Map(
+      (
+        this.db
+          .prepare(`SELECT * FROM artist_snapshots`)
+          .all() as ArtistSnapshotRow[]
+      ).map((r) => [r.artistId, r])
+    );
+    const storedIds = new Set(this.getStoredArtistIds());
+
+    const diff: SyncDiff = {
+      added: [],
+      removed: removedIds.filter((id) => storedIds.has(id)),
+      changed: [],
+    };
+
+    this.db.transaction(() => {
+      diff.removed.forEach((artistId) => this.purgeArtist(artistId));
+
+      for (const snapshot of snapshots) {
+        const { artist, socials, shop, releases, feedItems, hash } = snapshot;
+        // Databases from before snapshots existed have artists but no hashes
+        const prev = previous.get(artist.id);
+        const change = !storedIds.has(artist.id)
+          ? 'added'
+          : !prev || prev.hash !== hash
+            ? 'changed'
+            : 'unchanged';
+        if (change === 'added') diff.added.push(artist.id);
+        else if (change === 'changed') diff.changed.push(artist.id);
+        this.log[change === 'unchanged' ? 'debug' : 'info']('Artist synced', {
+          artistId: artist.id,
+          artistName: artist.name,
+          shopId: shop?.id,
+          change,
+          feedItems: feedItems.length,
+        });
+
+        const syncedAt = prev && prev.hash === hash ? prev.syncedAt : now;
+        const firstSeen = shop ? this.getFirstSeenDates(shop.id) : undefined;
+
+        this.purgeArtist(artist.id);
         this.upsertArtist(artist);
-        const [soc, shp, rel] = await Promise.all([
-          this.http.get<SocialApiDto[]>(`/socials?artistId=${artist.id}`),
-          this.http.get<ShopApiDto>(`/shops?artistId=${artist.id}`),
-          this.http.get<LatestReleasesApiDto>(
-            `/music-platforms/releases/latest?artistId=${artist.id}`
-          ),
-        ]);
-
-        this.db.transaction(() => {
-          (soc.body || []).forEach((s) => this.upsertSocial(s, artist.id));
-
-          if (shp.body) {
-            const shopData = Array.isArray(shp.body) ? shp.body[0] : shp.body;
-            if (shopData) this.upsertShop(shopData, artist.id);
-          }
+        this.upsertMedia(artist.id, 'avatar', artist.id, artist.avatarDataUri);
+        this.upsertMedia(artist.id, 'logo', artist.id, artist.logoDataUri);
+        this.upsertMedia(
+          artist.id,
+          'favicon',
+          artist.id,
+          artist.faviconDataUri
+        );
+        socials.forEach((s) => this.upsertSocial(s, artist.id));
+
+        if (shop) {
+          const canonical = this.getCanonicalHostname(shop, artist);
+          this.upsertShop(shop, artist.id, syncedAt, canonical, feedItems);
+          this.upsertMedia(shop.id, 'shop', artist.id, shop.imageDataUri);
+          this.upsertDomains(shop, artist, canonical);
+          this.upsertProducts(shop.id, feedItems, syncedAt, firstSeen);
+        }
 
-          if (rel.body) this.upsertLatestReleases(artist.id, rel.body);
-        })();
+        if (releases) this.upsertLatestReleases(artist.id, releases);
+
+        this.db
+          .prepare(
+            `INSERT INTO artist_snapshots (artistId, hash, syncedAt) VALUES (?, ?, ?)`
+          )
+          .run(artist.id, hash, syncedAt);
       }
-      console.log(`[LocalDB] Sync completed for ${artists.length} artists.`);
-    } catch (err: any) {
-      console.error('[LocalDB] Sync failed:', err.message);
+    })();
+
+    this.pruneMedia();
+
+    const changedIds = [...diff.added, ...diff.removed, ...diff.changed];
+    if (changedIds.length) {
+      this.changeListeners.forEach((listener) => listener(changedIds));
     }
+
+    return diff;
+  }
+
+  /** Registers a listener for artists whose data changed during a sync. */
+  public onDataChanged(listener: (artistIds: string[]) => void) {
+    this.changeListeners.push(listener);
+  }
+
+  private getStoredArtistIds(): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id FROM artists UNION SELECT artistId FROM artist_snapshots`
+      )
+      .all() as { id: string }[];
+    return rows.map((r) => r.id);
+  }
+
+  private purgeArtist(artistId: string) {
+    const shopIds = this.db
+      .prepare(`SELECT id FROM shops WHERE artistId = ?`)
+      .all(artistId) as { id: string }[];
+
+    shopIds.forEach(({ id }) => {
+      this.db.prepare('DELETE FROM products WHERE shopId = ?').run(id);
+      this.db.prepare('DELETE FROM variants WHERE shopId = ?').run(id);
+    });
+
+    this.db.prepare('DELETE FROM artists WHERE id = ?').run(artistId);
+    this.db.prepare('DELETE FROM socials WHERE artistId = ?').run(artistId);
+    this.db.prepare('DELETE FROM shops WHERE artistId = ?').run(artistId);
+    this.db
+      .prepare('DELETE FROM latest_releases WHERE artistId = ?')
+      .run(artistId);
+    this.db.prepare('DELETE FROM domains WHERE artistId = ?').run(artistId);
+    this.db.prepare('DELETE FROM media WHERE artistId = ?').run(artistId);
+    this.db
+      .prepare('DELETE FROM artist_snapshots WHERE artistId = ?')
+      .run(artistId);
+  }
+
+  private recordSyncRun(
+    startedAt: number,
+    status: SyncStatus,
+    artistCount: number,
+    diff: SyncDiff,
+    errors: SyncError[],
+    scope = 'all'
+  ) {
+    const finishedAt = Date.now();
+    // Per-artist runs store the artist id as scope; metrics keep labels bounded
+    const scopeLabel = scope === 'all' ? 'all' : 'artist';
+    syncRuns.inc({ scope: scopeLabel, status });
+    syncDuration.observe(
+      { scope: scopeLabel },
+      (finishedAt - startedAt) / 1000
+    );
+    if (status === 'success' || status === 'partial') {
+      syncLastSuccess.set({ scope: scopeLabel }, finishedAt / 1000);
+    }
+    if (scope === 'all') this.trackFreshness(status);
+
+    this.db
+      .prepare(
+        `
+      INSERT INTO sync_runs (startedAt, finishedAt, durationMs, status, scope, artistCount, added, removed, changed, errors)
+      VALUES (@startedAt, @finishedAt, @durationMs, @status, @scope, @artistCount, @added, @removed, @changed, @errors)
+    `
+      )
+      .run({
+        startedAt: new Date(startedAt).toISOString(),
+        finishedAt: new Date(finishedAt).toISOString(),
+        durationMs: finishedAt - startedAt,
+        status,
+        scope,
+        artistCount,
+        added: JSON.stringify(diff.added),
+        removed: JSON.stringify(diff.removed),
+        changed: JSON.stringify(diff.changed),
+        errors: JSON.stringify(errors),
+      });
+
+    this.db
+      .prepare(
+        `DELETE FROM sync_runs WHERE id NOT IN (SELECT id FROM sync_runs ORDER BY id DESC LIMIT ?)`
+      )
+      .run(SYNC_RUN_HISTORY);
+  }
+
+  private async refreshImageMetaFor(snapshots: ArtistSnapshot[]) {
+    const urls = new Set<string>();
+    // Locally cached media is measured when stored, so only remote URLs
+    const addRemote = (url: string) => {
+      if (!url.startsWith('/')) urls.add(url);
+    };
+
+    for (const { artist, shop, feedItems } of snapshots) {
+      if (artist.avatarDataUri) {
+        addRemote(this.getArtistImageUrl(artist.id, 'avatar'));
+      }
+      if (!shop) continue;
+      addRemote(this.getShopImageUrl(shop.id));
+
+      const covers = new Map<string, string>();
+      feedItems.forEach((item) => {
+        if (item.image && !covers.has(item.groupId)) {
+          covers.set(item.groupId, item.image);
+        }
+      });
+      covers.forEach((url) => urls.add(url));
+    }
+
+    const queue = Array.from(urls);
+    while (queue.length) {
+      await Promise.all(
+        queue
+          .splice(0, IMAGE_META_BATCH_SIZE)
+          .map((url) => this.refreshImageMeta(url))
+      );
+    }
+  }
+
+  /**
+   * Revalidates one image with If-None-Match / If-Modified-Since and only
+   * re-measures it when the content actually changed. A failed fetch isn't
+   * retried for IMAGE_META_RETRY_MS, so a dead image host costs one request
+   * per cooldown instead of one per render.
+   */
+  private async refreshImageMeta(url: string) {
+    if (this.imageMetaInFlight.has(url)) return;
+    const cached = this.db
+      .prepare(`SELECT * FROM image_meta WHERE url = ?`)
+      .get(url) as ImageMetaRow | undefined;
+    if (
+      cached?.failedAt &&
+      Date.now() - Date.parse(cached.failedAt) < this.imageMetaRetryMs
+    ) {
+      return;
+    }
+
+    this.imageMetaInFlight.add(url);
+    const endTimer = imageFetchDuration.startTimer();
+    let outcome = 'error';
+
+    try {
+      const headers: Record<string, string> = {};
+      if (cached?.etag) headers['If-None-Match'] = cached.etag;
+      if (cached?.lastModified) {
+        headers['If-Modified-Since'] = cached.lastModified;
+      }
+
+      const response = await fetch(url, {
+        headers,
+        signal: AbortSignal.timeout(this.imageMetaTimeoutMs),
+      });
+      const fetchedAt = new Date().toISOString();
+
+      if (response.status === 304 && cached?.contentHash) {
+        outcome = 'not_modified';
+        this.db
+          .prepare(
+            `UPDATE image_meta SET fetchedAt = ?, failedAt = NULL WHERE url = ?`
+          )
+          .run(fetchedAt, url);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`responded with ${response.status}`);
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      outcome = 'updated';
+      const contentHash = crypto
+        .createHash('sha256')
+        .update(buffer)
+        .digest('hex');
+      const unchanged = cached && cached.contentHash === contentHash;
+      const dimensions = unchanged ? cached : imageSize(buffer);
+
+      this.db
+        .prepare(
+          `
+        INSERT OR REPLACE INTO image_meta (url, etag, lastModified, contentHash, type, width, height, fetchedAt)
+        VALUES (@url, @etag, @lastModified, @contentHash, @type, @width, @height, @fetchedAt)
+      `
+        )
+        .run({
+          url,
+          etag: response.headers.get('etag'),
+          lastModified: response.headers.get('last-modified'),
+          contentHash,
+          type: response.headers.get('content-type') || 'image/png',
+          width: dimensions.width ?? 1920,
+          height: dimensions.height ?? 1080,
+          fetchedAt,
+        });
+    } catch (err) {
+      // Previously measured dimensions stay usable while the host is failing
+      this.db
+        .prepare(
+          `
+        INSERT INTO image_meta (url, failedAt) VALUES (?, ?)
+        ON CONFLICT(url) DO UPDATE SET failedAt = excluded.failedAt
+      `
+        )
+        .run(url, new Date().toISOString());
+      this.log.warn('Image metadata refresh failed', {
+        url,
+        retryInMs: this.imageMetaRetryMs,
+        error: (err as Error).message,
+      });
+    } finally {
+      endTimer({ outcome });
+      this.imageMetaInFlight.delete(url);
+    }
+  }
+
+  private async fetchShopFeed(feedUrl: string): Promise<FeedItem[]> {
+    const response = await fetch(feedUrl, {
+      signal: AbortSignal.timeout(this.apiTimeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Feed ${feedUrl} responded with ${response.status}`);
+    }
+    return this.feedParser.parse(await response.text());
   }
 
   private startSyncSchedule() {
     const run = async () => {
-      if (this.syncing) return;
-      this.syncing = true;
-      await this.fetchAndStoreAll();
-      this.syncing = false;
+      await this.syncAll();
       setTimeout(run, this.syncIntervalMs);
     };
     setTimeout(run, this.syncIntervalMs);
@@ -175,12 +1070,80 @@ export class LocalDatabase {
       });
   }
 
-  private upsertShop(s: ShopApiDto, artistId: string) {
+  private upsertMedia(
+    ownerId: string,
+    kind: MediaKind,
+    artistId: string,
+    dataUri?: string
+  ) {
+    if (!dataUri) return;
+
+    let stored: StoredMedia | undefined;
+    try {
+      stored = this.media.save(dataUri);
+    } catch (err) {
+      // A failed write shouldn't fail the sync; the API URL is used instead
+      this.log.warn('Failed to store media', {
+        artistId,
+        ownerId,
+        kind,
+        error: (err as Error).message,
+      });
+      return;
+    }
+    if (!stored) {
+      this.log.warn('Skipped media: not a supported image data URI', {
+        artistId,
+        ownerId,
+        kind,
+      });
+      return;
+    }
+
     this.db
       .prepare(
         `
-      INSERT INTO shops (id, artistId, name, website, hasImage, shopFeed)
-      VALUES (@id, @artistId, @name, @website, @hasImage, @shopFeed)
+      INSERT OR REPLACE INTO media (ownerId, kind, artistId, file, type, size, width, height)
+      VALUES (@ownerId, @kind, @artistId, @file, @type, @size, @width, @height)
+    `
+      )
+      .run({
+        ownerId,
+        kind,
+        artistId,
+        file: stored.file,
+        type: stored.type,
+        size: stored.size,
+        width: stored.width ?? null,
+        height: stored.height ?? null,
+      });
+  }
+
+  private pruneMedia() {
+    const rows = this.db.prepare(`SELECT file FROM media`).all() as {
+      file: string;
+    }[];
+
+    try {
+      const removed = this.media.prune(new Set(rows.map((r) => r.file)));
+      if (removed) this.log.info('Pruned unused media files', { removed });
+    } catch (err) {
+      this.log.warn('Media prune failed', { error: (err as Error).message });
+    }
+  }
+
+  private upsertShop(
+    s: ShopApiDto,
+    artistId: string,
+    syncedAt: string,
+    canonicalDomain: string | undefined,
+    feedItems: FeedItem[]
+  ) {
+    this.db
+      .prepare(
+        `
+      INSERT INTO shops (id, artistId, name, website, hasImage, shopFeed, syncedAt, canonicalDomain, currency, locale, theme)
+      VALUES (@id, @artistId, @name, @website, @hasImage, @shopFeed, @syncedAt, @canonicalDomain, @currency, @locale, @theme)
     `
       )
       .run({
@@ -190,9 +1153,69 @@ export class LocalDatabase {
         website: s.website ?? null,
         hasImage: s.imageDataUri ? 1 : 0,
         shopFeed: s.shopFeed ?? null,
+        syncedAt,
+        canonicalDomain: canonicalDomain ?? null,
+        currency:
+          s.currency?.toUpperCase() || this.getPrimaryCurrency(feedItems),
+        locale: s.locale || null,
+        theme: s.theme ? JSON.stringify(parseShopTheme(s.theme)) : null,
       });
   }
 
+  // The currency most of the feed is priced in, for shops that don't set one
+  private getPrimaryCurrency(items: FeedItem[]): string | null {
+    const counts = new Map<string, number>();
+    items.forEach((i) =>
+      counts.set(i.currency, (counts.get(i.currency) ?? 0) + 1)
+    );
+    return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  }
+
+  private getCanonicalHostname(
+    s: ShopApiDto,
+    artist: ArtistApiDto
+  ): string | undefined {
+    const candidate = s.canonicalDomain || s.website || artist.website;
+    return candidate ? normalizeHostname(candidate) || undefined : undefined;
+  }
+
+  private upsertDomains(
+    s: ShopApiDto,
+    artist: ArtistApiDto,
+    canonical?: string
+  ) {
+    const sources = [
+      canonical,
+      s.website,
+      ...(s.domainAliases ?? []),
+      artist.website,
+    ].filter(Boolean);
+    const hostnames = new Set(sources.flatMap((h) => expandHostnames(h)));
+
+    const insert = this.db.prepare(
+      `
+      INSERT OR IGNORE INTO domains (hostname, shopId, artistId, isCanonical)
+      VALUES (@hostname, @shopId, @artistId, @isCanonical)
+    `
+    );
+
+    hostnames.forEach((hostname) => {
+      const result = insert.run({
+        hostname,
+        shopId: s.id,
+        artistId: artist.id,
+        isCanonical: hostname === canonical ? 1 : 0,
+      });
+      if (result.changes === 0) {
+        this.log.warn('Domain already mapped to another shop, skipped', {
+          hostname,
+          artistId: artist.id,
+          artistName: artist.name,
+        });
+      }
+    });
+  }
+
   private upsertSocial(s: SocialApiDto, artistId: string) {
     this.db
       .prepare(
@@ -225,9 +1248,65 @@ export class LocalDatabase {
       );
   }
 
-  public getAllArtists(): ArtistEntity[] {
-    const rows = this.db.prepare(`SELECT * FROM artists`).all() as ArtistRow[];
-    return rows.map((r) => ({
+  // Products are re-inserted on every sync, so first-seen dates are carried over
+  private getFirstSeenDates(shopId: string): Map<string, string> {
+    const rows = this.db
+      .prepare(
+        `SELECT groupId, COALESCE(firstSeenAt, syncedAt) AS firstSeenAt FROM products WHERE shopId = ?`
+      )
+      .all(shopId) as { groupId: string; firstSeenAt: string | null }[];
+    return new Map(
+      rows.filter((r) => r.firstSeenAt).map((r) => [r.groupId, r.firstSeenAt])
+    );
+  }
+
+  private upsertProducts(
+    shopId: string,
+    items: FeedItem[],
+    syncedAt: string,
+    firstSeen = new Map<string, string>()
+  ) {
+    const insertProduct = this.db.prepare(
+      `
+      INSERT OR IGNORE INTO products (shopId, groupId, title, description, productType, position, syncedAt, firstSeenAt)
+      VALUES (@shopId, @groupId, @title, @description, @productType, @position, @syncedAt, @firstSeenAt)
+    `
+    );
+    const insertVariant = this.db.prepare(
+      `
+      INSERT OR REPLACE INTO variants (shopId, id, groupId, title, link, image, price, currency, availability, position)
+      VALUES (@shopId, @id, @groupId, @title, @link, @image, @price, @currency, @availability, @position)
+    `
+    );
+
+    items.forEach((item, position) => {
+      insertProduct.run({
+        shopId,
+        groupId: item.groupId,
+        title: item.title,
+        description: item.description || null,
+        productType: item.productType,
+        position,
+        syncedAt,
+        firstSeenAt: firstSeen.get(item.groupId) ?? syncedAt,
+      });
+      insertVariant.run({
+        shopId,
+        id: item.id,
+        groupId: item.groupId,
+        title: item.title,
+        link: item.link || null,
+        image: item.image || null,
+        price: item.price,
+        currency: item.currency,
+        availability: item.availability || null,
+        position,
+      });
+    });
+  }
+
+  private toArtistEntity(r: ArtistRow): ArtistEntity {
+    return {
       id: r.id,
       name: r.name,
       type: r.type,
@@ -237,17 +1316,94 @@ export class LocalDatabase {
       hasAvatar: Boolean(r.hasAvatar),
       hasLogo: Boolean(r.hasLogo),
       hasFavicon: Boolean(r.hasFavicon),
-    }));
+    };
+  }
+
+  public getAllArtists(): ArtistEntity[] {
+    const rows = this.db.prepare(`SELECT * FROM artists`).all() as ArtistRow[];
+    return rows.map((r) => this.toArtistEntity(r));
   }
 
-  public getArtistByWebsite(host: string): ArtistEntity | undefined {
-    const clean = host.replace(/^https?:\/\//, '').replace(/\/$/, '');
+  public getArtist(artistId: string): ArtistEntity | undefined {
     const row = this.db
-      .prepare(`SELECT * FROM artists WHERE website LIKE ?`)
-      .get(`%${clean}%`) as ArtistRow | undefined;
+      .prepare(`SELECT * FROM artists WHERE id = ?`)
+      .get(artistId) as ArtistRow | undefined;
+    return row ? this.toArtistEntity(row) : undefined;
+  }
 
-    if (!row) return undefined;
-    return this.getAllArtists().find((a) => a.id === row.id);
+  public getTableRowCounts(): Record<string, number> {
+    const tables = this.db
+      .prepare(
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'`
+      )
+      .all() as { name: string }[];
+
+    return Object.fromEntries(
+      tables.map(({ name }) => {
+        const { count } = this.db
+          .prepare(`SELECT COUNT(*) AS count FROM "${name}"`)
+          .get() as { count: number };
+        return [name, count];
+      })
+    );
+  }
+
+  // Shops without products are included so an emptied catalog reads as 0
+  public getShopProductCounts(): Record<string, number> {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT s.id AS shopId, COUNT(p.groupId) AS count
+      FROM shops s LEFT JOIN products p ON p.shopId = s.id
+      GROUP BY s.id
+    `
+      )
+      .all() as { shopId: string; count: number }[];
+
+    return Object.fromEntries(rows.map((r) => [r.shopId, r.count]));
+  }
+
+  /**
+   * Resolves a request host to its shop mapping: exact hostname first, then
+   * without "www.", then the registrable (public-suffix aware) apex domain.
+   */
+  public resolveDomain(host: string): DomainEntity | undefined {
+    const hostname = normalizeHostname(host);
+    if (!hostname) return undefined;
+
+    const stmt = this.db.prepare(`SELECT * FROM domains WHERE hostname = ?`);
+    const candidates = new Set(
+      [
+        hostname,
+        hostname.replace(/^www\./, ''),
+        getApexDomain(hostname),
+      ].filter(Boolean)
+    );
+
+    for (const candidate of candidates) {
+      const row = stmt.get(candidate) as DomainRow | undefined;
+      if (row) {
+        return {
+          hostname: row.hostname,
+          shopId: row.shopId,
+          artistId: row.artistId,
+          isCanonical: Boolean(row.isCanonical),
+        };
+      }
+    }
+    return undefined;
+  }
+
+  public getDomains(): DomainEntity[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM domains ORDER BY hostname`)
+      .all() as DomainRow[];
+    return rows.map((r) => ({
+      hostname: r.hostname,
+      shopId: r.shopId,
+      artistId: r.artistId,
+      isCanonical: Boolean(r.isCanonical),
+    }));
   }
 
   public getShopByArtist(artistId: string): ShopEntity | undefined {
@@ -255,7 +1411,18 @@ export class LocalDatabase {
       .prepare(`SELECT * FROM shops WHERE artistId = ?`)
       .get(artistId) as ShopRow | undefined;
 
-    if (!r) return undefined;
+    return r ? this.toShopEntity(r) : undefined;
+  }
+
+  public getShopById(shopId: string): ShopEntity | undefined {
+    const r = this.db
+      .prepare(`SELECT * FROM shops WHERE id = ?`)
+      .get(shopId) as ShopRow | undefined;
+
+    return r ? this.toShopEntity(r) : undefined;
+  }
+
+  private toShopEntity(r: ShopRow): ShopEntity {
     return {
       id: r.id,
       artistId: r.artistId,
@@ -263,6 +1430,11 @@ export class LocalDatabase {
       website: r.website ?? undefined,
       hasImage: Boolean(r.hasImage),
       shopFeed: r.shopFeed ?? undefined,
+      syncedAt: r.syncedAt ?? undefined,
+      canonicalDomain: r.canonicalDomain ?? undefined,
+      currency: r.currency ?? this.config.get('DEFAULT_CURRENCY'),
+      locale: r.locale ?? this.config.get('DEFAULT_LOCALE'),
+      theme: r.theme ? parseShopTheme(JSON.parse(r.theme)) : DEFAULT_SHOP_THEME,
     };
   }
 
@@ -285,8 +1457,244 @@ export class LocalDatabase {
 
     if (!row) return undefined;
     return {
-      youtube: row.youtube ? JSON.parse(row.youtube) : undefined,
-      spotify: row.spotify ? JSON.parse(row.spotify) : undefined,
+      youtube: row.youtube ? JSON.parse(row.youtube) : null,
+      spotify: row.spotify ? JSON.parse(row.spotify) : null,
+    };
+  }
+
+  public getProduct(
+    shopId: string,
+    groupId: string
+  ): ProductEntity | undefined {
+    const r = this.db
+      .prepare(`SELECT * FROM products WHERE shopId = ? AND groupId = ?`)
+      .get(shopId, groupId) as ProductRow | undefined;
+
+    if (!r) return undefined;
+
+    const variantRows = this.db
+      .prepare(
+        `SELECT * FROM variants WHERE shopId = ? AND groupId = ? ORDER BY position`
+      )
+      .all(shopId, groupId) as VariantRow[];
+
+    return {
+      groupId: r.groupId,
+      title: r.title,
+      description: r.description ?? undefined,
+      productType: r.productType,
+      syncedAt: r.syncedAt ?? undefined,
+      firstSeenAt: r.firstSeenAt ?? r.syncedAt ?? undefined,
+      variants: variantRows.map((v) => this.toVariantEntity(v)),
+    };
+  }
+
+  public getVariant(
+    shopId: string,
+    variantId: string
+  ): VariantEntity | undefined {
+    const r = this.db
+      .prepare(`SELECT * FROM variants WHERE shopId = ? AND id = ?`)
+      .get(shopId, variantId) as VariantRow | undefined;
+    return r ? this.toVariantEntity(r) : undefined;
+  }
+
+  private toVariantEntity(r: VariantRow): VariantEntity {
+    return {
+      id: r.id,
+      title: r.title,
+      link: r.link ?? '',
+      image: r.image ?? '',
+      price: r.price,
+      currency: r.currency ?? this.config.get('DEFAULT_CURRENCY'),
+      availability: r.availability ?? undefined,
+    };
+  }
+
+  public getProducts(shopId: string): ProductEntity[] {
+    const productRows = this.db
+      .prepare(`SELECT * FROM products WHERE shopId = ? ORDER BY position`)
+      .all(shopId) as ProductRow[];
+    const variantRows = this.db
+      .prepare(`SELECT * FROM variants WHERE shopId = ? ORDER BY position`)
+      .all(shopId) as VariantRow[];
+
+    const products = new Map<string, ProductEntity>();
+    productRows.forEach((r) =>
+      products.set(r.groupId, {
+        groupId: r.groupId,
+        title: r.title,
+        description: r.description ?? undefined,
+        productType: r.productType,
+        syncedAt: r.syncedAt ?? undefined,
+        firstSeenAt: r.firstSeenAt ?? r.syncedAt ?? undefined,
+        variants: [],
+      })
+    );
+
+    variantRows.forEach((r) =>
+      products.get(r.groupId)?.variants.push(this.toVariantEntity(r))
+    );
+
+    return Array.from(products.values());
+  }
+
+  private toSyncRunEntity(r: SyncRunRow): SyncRunEntity {
+    return {
+      id: r.id,
+      startedAt: r.startedAt,
+      finishedAt: r.finishedAt,
+      durationMs: r.durationMs,
+      status: r.status,
+      scope: r.scope ?? 'all',
+      artistCount: r.artistCount,
+      diff: {
+        added: r.added ? JSON.parse(r.added) : [],
+        removed: r.removed ? JSON.parse(r.removed) : [],
+        changed: r.changed ? JSON.parse(r.changed) : [],
+      },
+      errors: r.errors ? JSON.parse(r.errors) : [],
     };
   }
+
+  public getSyncRuns(limit = 20): SyncRunEntity[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?`)
+      .all(limit) as SyncRunRow[];
+    return rows.map((r) => this.toSyncRunEntity(r));
+  }
+
+  public getLastSyncRun(): SyncRunEntity | undefined {
+    return this.getSyncRuns(1)[0];
+  }
+
+  /** Latest full sync that stored data; partial runs count as successful. */
+  public getLastSuccessfulSync(): SyncRunEntity | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM sync_runs WHERE scope = 'all' AND status IN ('success', 'partial') ORDER BY id DESC LIMIT 1`
+      )
+      .get() as SyncRunRow | undefined;
+    return row ? this.toSyncRunEntity(row) : undefined;
+  }
+
+  /** Throws when the database file can't be read. */
+  public countArtists(): number {
+    const { count } = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM artists`)
+      .get() as { count: number };
+    return count;
+  }
+
+  /** Whether the delivery was already processed within retention. */
+  public hasWebhookDelivery(deliveryId: string): boolean {
+    this.db
+      .prepare(`DELETE FROM webhook_deliveries WHERE receivedAt < ?`)
+      .run(Date.now() - WEBHOOK_DELIVERY_RETENTION_MS);
+
+    return Boolean(
+      this.db
+        .prepare(`SELECT 1 FROM webhook_deliveries WHERE id = ?`)
+        .get(deliveryId)
+    );
+  }
+
+  /** Marks a delivery as processed once its sync has succeeded. */
+  private recordWebhookDelivery(deliveryId: string) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO webhook_deliveries (id, receivedAt) VALUES (?, ?)`
+      )
+      .run(deliveryId, Date.now());
+  }
+
+  public getCurrencyRates(): CurrencyRates | undefined {
+    const rows = this.db
+      .prepare(`SELECT * FROM currency_rates`)
+      .all() as CurrencyRateRow[];
+    if (!rows.length) return undefined;
+
+    return {
+      base: rows[0].base,
+      updatedAt: rows[0].updatedAt,
+      rates: Object.fromEntries(rows.map((r) => [r.currency, r.rate])),
+    };
+  }
+
+  /** Site-relative URL of a locally cached image, if one was stored. */
+  public getMediaUrl(ownerId: string, kind: MediaKind): string | undefined {
+    const row = this.db
+      .prepare(`SELECT file FROM media WHERE ownerId = ? AND kind = ?`)
+      .get(ownerId, kind) as Pick<MediaRow, 'file'> | undefined;
+
+    return row ? `/media/${row.file}` : undefined;
+  }
+
+  public getMediaPath(file: string): string | undefined {
+    return this.media.getPath(file);
+  }
+
+  // Falls back to the API's image routes when no local copy was stored
+  public getShopImageUrl(shopId: string): string {
+    return (
+      this.getMediaUrl(shopId, 'shop') ??
+      encodeURI(`${this.config.get('API_URL')}/shops/${shopId}/photo`)
+    );
+  }
+
+  public getArtistImageUrl(artistId: string, kind: 'avatar' | 'logo'): string {
+    return (
+      this.getMediaUrl(artistId, kind) ??
+      encodeURI(`${this.config.get('API_URL')}/artists/${artistId}/${kind}`)
+    );
+  }
+
+  public getArtistProfile(artistId: string): ArtistProfileDto | undefined {
+    const artist = this.getArtist(artistId);
+    if (!artist) return undefined;
+
+    return {
+      id: artist.id,
+      name: artist.name,
+      type: artist.type,
+      website: artist.website,
+      bio: artist.bio,
+      avatarUrl: artist.hasAvatar
+        ? this.getArtistImageUrl(artist.id, 'avatar')
+        : undefined,
+      logoUrl: artist.hasLogo
+        ? this.getArtistImageUrl(artist.id, 'logo')
+        : undefined,
+    };
+  }
+
+  /**
+   * Returns cached image dimensions. Local media is answered from the media
+   * table; for remote images a miss schedules a background refresh and
+   * returns undefined right away instead of waiting on the image host.
+   */
+  public getImageMeta(url: string): ImageMeta | undefined {
+    const mediaFile = url.match(/^\/media\/([^/?#]+)$/)?.[1];
+    if (mediaFile) {
+      const media = this.db
+        .prepare(`SELECT type, width, height FROM media WHERE file = ?`)
+        .get(mediaFile) as Pick<MediaRow, 'type' | 'width' | 'height'>;
+      if (!media) return undefined;
+      return {
+        type: media.type,
+        width: media.width ?? 1920,
+        height: media.height ?? 1080,
+      };
+    }
+
+    const row = this.db
+      .prepare(
+        `SELECT type, width, height FROM image_meta WHERE url = ? AND width IS NOT NULL`
+      )
+      .get(url) as ImageMeta | undefined;
+
+    // Skipped inside refreshImageMeta while a recent failure cools down
+    if (!row) void this.refreshImageMeta(url);
+    return row;
+  }
 }
@@ -0,0 +1,86 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Request-scoped fields (e.g. requestId) picked up by every log call
+const context = new AsyncLocalStorage<LogFields>();
+
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Writes one JSON object per line: time, level, msg, then the logger's
+ * bindings, the request context and the call's own fields. Warnings and
+ * errors go to stderr.
+ */
+export class Logger {
+  private bindings: LogFields;
+  // Shared with child loggers so one setLevel() call applies everywhere
+  private settings: { minLevel: number };
+
+  constructor(bindings: LogFields = {}, settings = { minLevel: LEVELS.info }) {
+    this.bindings = bindings;
+    this.settings = settings;
+  }
+
+  setLevel(level: LogLevel) {
+    this.settings.minLevel = LEVELS[level] ?? LEVELS.info;
+  }
+
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings }, this.settings);
+  }
+
+  debug(msg: string, fields?: LogFields) {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields) {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields) {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields) {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields = {}) {
+    if (LEVELS[level] < this.settings.minLevel) return;
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...this.bindings,
+      ...context.getStore(),
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = serialize(value);
+    }
+
+    const stream =
+      LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+export const logger = new Logger();
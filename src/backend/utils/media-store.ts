@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { imageSize } from 'image-size';
+import { StoredMedia } from '../interfaces/media';
+
+// Only image types are stored, so nothing else can be served from our origin
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+};
+
+const MEDIA_FILE_PATTERN = /^[a-f0-9]{64}\.(png|jpg|gif|webp|avif|svg|ico)$/;
+// Leftovers of an interrupted save()
+const TEMP_FILE_PATTERN =
+  /^[a-f0-9]{64}\.(png|jpg|gif|webp|avif|svg|ico)\.\d+\.tmp$/;
+
+export function decodeDataUri(
+  uri: string
+): { buffer: Buffer; type: string } | undefined {
+  const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s);
+  if (!match) return undefined;
+
+  const type = (match[1] || 'text/plain').toLowerCase();
+  const isBase64 = /;base64$/i.test(match[2]);
+  try {
+    const buffer = isBase64
+      ? Buffer.from(match[3], 'base64')
+      : Buffer.from(decodeURIComponent(match[3]), 'utf8');
+    return buffer.length ? { buffer, type } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Content-addressed image files on disk. Files are named after the SHA-256
+ * of their bytes, so identical uploads share a file and a name never points
+ * at different content.
+ */
+export class MediaStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  save(dataUri: string): StoredMedia | undefined {
+    const decoded = decodeDataUri(dataUri);
+    const extension = decoded && EXTENSIONS[decoded.type];
+    if (!extension) return undefined;
+
+    const { buffer, type } = decoded;
+    const hash = crypto.createHash('sha256').update(buffer).digest('hex');
+    const file = `${hash}.${extension}`;
+    const target = path.join(this.dir, file);
+
+    if (!fs.existsSync(target)) {
+      // Write then rename so readers never see a partial file
+      const temp = `${target}.${process.pid}.tmp`;
+      fs.writeFileSync(temp, buffer);
+      fs.renameSync(temp, target);
+    }
+
+    let dimensions: { width?: number; height?: number } = {};
+    try {
+      dimensions = imageSize(buffer);
+    } catch {
+      // Unmeasurable images are still served, just without dimensions
+    }
+
+    return {
+      file,
+      type,
+      size: buffer.length,
+      width: dimensions.width,
+      height: dimensions.height,
+    };
+  }
+
+  getPath(file: string): string | undefined {
+    if (!MEDIA_FILE_PATTERN.test(file)) return undefined;
+    const filePath = path.join(this.dir, file);
+    return fs.existsSync(filePath) ? filePath : undefined;
+  }
+
+  /**
+   * Deletes stored files no longer referenced; returns how many were
+   * removed. Only names this store writes are touched, so other files in an
+   * operator-chosen MEDIA_DIR are left alone.
+   */
+  prune(referenced: Set<string>): number {
+    let removed = 0;
+    for (const file of fs.readdirSync(this.dir)) {
+      const owned =
+        MEDIA_FILE_PATTERN.test(file) || TEMP_FILE_PATTERN.test(file);
+      if (!owned || referenced.has(file)) continue;
+      fs.rmSync(path.join(this.dir, file), { force: true });
+      removed++;
+    }
+    return removed;
+  }
+}
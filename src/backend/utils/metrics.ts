@@ -0,0 +1,107 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+// 🌐 HTTP
+export const httpRequests = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by resolved shop, method and status code',
+  labelNames: ['shop', 'method', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by resolved shop and method',
+  labelNames: ['shop', 'method'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry],
+});
+
+export const unknownHostRequests = new Counter({
+  name: 'http_unknown_host_requests_total',
+  help: 'Requests answered with 404 because no shop is mapped to the host',
+  registers: [metricsRegistry],
+});
+
+export const corsRejections = new Counter({
+  name: 'http_cors_rejections_total',
+  help: 'Requests rejected because their origin is not allowed',
+  registers: [metricsRegistry],
+});
+
+// 🔄 Sync
+export const syncRuns = new Counter({
+  name: 'sync_runs_total',
+  help: 'Catalog sync runs by scope (all or artist) and status',
+  labelNames: ['scope', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const syncDuration = new Histogram({
+  name: 'sync_duration_seconds',
+  help: 'Catalog sync run duration by scope',
+  labelNames: ['scope'] as const,
+  buckets: [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+export const syncLastSuccess = new Gauge({
+  name: 'sync_last_success_timestamp_seconds',
+  help: 'Unix time of the last successful or partial sync by scope',
+  labelNames: ['scope'] as const,
+  registers: [metricsRegistry],
+});
+
+// 🖼️ Image metadata fetched for SEO tags
+export const imageFetchDuration = new Histogram({
+  name: 'seo_image_fetch_duration_seconds',
+  help: 'Latency of image fetches used for og:image metadata, by outcome',
+  labelNames: ['outcome'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+/**
+ * Registers gauges that are read from the database at scrape time rather
+ * than updated as data changes.
+ */
+export function registerDatabaseGauges(source: {
+  getTableRowCounts: () => Record<string, number>;
+  getShopProductCounts: () => Record<string, number>;
+}) {
+  new Gauge({
+    name: 'db_table_rows',
+    help: 'Rows per local database table',
+    labelNames: ['table'] as const,
+    registers: [metricsRegistry],
+    collect() {
+      this.reset();
+      for (const [table, rows] of Object.entries(source.getTableRowCounts())) {
+        this.set({ table }, rows);
+      }
+    },
+  });
+
+  new Gauge({
+    name: 'shop_products',
+    help: 'Products currently listed per shop',
+    labelNames: ['shop'] as const,
+    registers: [metricsRegistry],
+    collect() {
+      this.reset();
+      for (const [shop, count] of Object.entries(
+        source.getShopProductCounts()
+      )) {
+        this.set({ shop }, count);
+      }
+    },
+  });
+}
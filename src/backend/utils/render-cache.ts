@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+export interface RenderedPage {
+  html: string;
+  etag: string;
+  status: number;
+  artistId: string;
+  version: string;
+}
+
+// Entries live in their own subdirectory so clearing never touches other
+// files in the configured directory
+const DISK_SUBDIR = 'rendered-pages';
+
+/**
+ * LRU cache of rendered SEO pages keyed by host + path + language. When a directory is
+ * given, entries are also written to disk (grouped per artist) so they
+ * survive restarts. The disk copy is bounded by the same entry limit.
+ */
+export class RenderCache {
+  private entries = new Map<string, RenderedPage>();
+  private maxEntries: number;
+  private diskDir?: string;
+  // Disk files in least-recently-written order
+  private diskFiles = new Set<string>();
+  private pendingWrites = new Map<string, Promise<void>>();
+
+  constructor(maxEntries: number, diskDir?: string) {
+    this.maxEntries = Math.max(1, maxEntries);
+    this.diskDir = diskDir ? path.join(diskDir, DISK_SUBDIR) : undefined;
+    if (this.diskDir) {
+      fs.mkdirSync(this.diskDir, { recursive: true });
+      this.indexDiskFiles();
+    }
+  }
+
+  /** Picks up files from earlier runs, oldest first, and trims the excess. */
+  private indexDiskFiles() {
+    const files: { file: string; mtimeMs: number }[] = [];
+    for (const dir of fs.readdirSync(this.diskDir)) {
+      const artistDir = path.join(this.diskDir, dir);
+      if (!fs.statSync(artistDir).isDirectory()) continue;
+      for (const name of fs.readdirSync(artistDir)) {
+        const file = path.join(artistDir, name);
+        files.push({ file, mtimeMs: fs.statSync(file).mtimeMs });
+      }
+    }
+
+    files
+      .sort((a, b) => a.mtimeMs - b.mtimeMs)
+      .forEach(({ file }) => this.diskFiles.add(file));
+    this.trimDisk();
+  }
+
+  private trimDisk() {
+    while (this.diskFiles.size > this.maxEntries) {
+      const oldest = this.diskFiles.values().next().value;
+      this.diskFiles.delete(oldest);
+      // Wait for an in-flight write so it can't recreate the file afterwards
+      void (this.pendingWrites.get(oldest) ?? Promise.resolve()).then(() => {
+        if (!this.diskFiles.has(oldest))
+          fs.rm(oldest, { force: true }, () => {});
+      });
+    }
+  }
+
+  static key(host: string, pathname: string, language: string): string {
+    return `${language}:${host.toLowerCase()}${pathname}`;
+  }
+
+  // Dots are escaped too, so an id like ".." can't point outside diskDir
+  private artistDir(artistId: string): string {
+    return path.join(
+      this.diskDir,
+      encodeURIComponent(artistId).replace(/\./g, '%2E')
+    );
+  }
+
+  private diskPath(artistId: string, key: string): string {
+    const name = crypto.createHash('sha1').update(key).digest('hex');
+    return path.join(this.artistDir(artistId), `${name}.json`);
+  }
+
+  get(
+    key: string,
+    artistId: string,
+    version: string
+  ): RenderedPage | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.artistId === artistId && entry.version === version) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry;
+    }
+
+    if (!this.diskDir) return undefined;
+    try {
+      const stored = JSON.parse(
+        fs.readFileSync(this.diskPath(artistId, key), 'utf8')
+      ) as RenderedPage;
+      if (stored.version !== version) return undefined;
+      this.remember(key, stored);
+      return stored;
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(
+    key: string,
+    artistId: string,
+    html: string,
+    status: number,
+    version: string
+  ): RenderedPage {
+    const etag = `"${crypto.createHash('sha1').update(html).digest('base64url')}"`;
+    const entry: RenderedPage = { html, etag, status, artistId, version };
+    this.remember(key, entry);
+
+    if (this.diskDir) {
+      const file = this.diskPath(artistId, key);
+      const write = fs.promises
+        .mkdir(path.dirname(file), { recursive: true })
+        .then(() => fs.promises.writeFile(file, JSON.stringify(entry)))
+        .catch((err) =>
+          logger.warn('Failed to persist rendered page', {
+            artistId,
+            error: err.message,
+          })
+        )
+        .finally(() => {
+          if (this.pendingWrites.get(file) === write) {
+            this.pendingWrites.delete(file);
+          }
+        });
+      this.pendingWrites.set(file, write);
+      this.diskFiles.delete(file);
+      this.diskFiles.add(file);
+      this.trimDisk();
+    }
+    return entry;
+  }
+
+  private remember(key: string, entry: RenderedPage) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      this.entries.delete(oldest);
+    }
+  }
+
+  invalidateArtists(artistIds: string[]) {
+    if (!artistIds.length) return;
+    const ids = new Set(artistIds);
+
+    this.entries.forEach((entry, key) => {
+      if (ids.has(entry.artistId)) this.entries.delete(key);
+    });
+
+    if (this.diskDir) {
+      ids.forEach((artistId) => {
+        const dir = this.artistDir(artistId);
+        this.diskFiles.forEach((file) => {
+          if (path.dirname(file) === dir) this.diskFiles.delete(file);
+        });
+        fs.rmSync(dir, { recursive: true, force: true });
+      });
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    if (this.diskDir) {
+      this.diskFiles.clear();
+      fs.rmSync(this.diskDir, { recursive: true, force: true });
+      fs.mkdirSync(this.diskDir, { recursive: true });
+    }
+  }
+}
@@ -1,6 +1,11 @@
-import axios from 'axios';
-import { imageSize } from 'image-size';
+import he from 'he';
 import fs from 'fs';
+import { ArtistEntity } from '../interfaces/artist';
+import { ShopEntity } from '../interfaces/shop';
+import { SocialEntity } from '../interfaces/social';
+import { ProductEntity } from '../interfaces/product';
+import { ImageMeta } from '../interfaces/image-meta';
+import { TemplateCache } from './template-cache';
 
 interface SeoHelperOptions {
   siteName: string;
@@ -10,6 +15,36 @@ interface SeoHelperOptions {
   maintenanceHtmlPath: string;
   faviconUrl: string;
   isServerDown: boolean;
+  templates?: TemplateCache;
+  imageMetaLookup?: (url: string) => ImageMeta | undefined;
+}
+
+interface StructuredDataOptions {
+  baseUrl: string;
+  artist: ArtistEntity;
+  shop: ShopEntity;
+  socials: SocialEntity[];
+  product?: ProductEntity;
+  currency?: string;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+export type OgType = 'website' | 'product' | 'profile';
+
+export interface LocaleAlternate {
+  language: string;
+  ogLocale: string;
+  url: string;
+}
+
+interface LocaleOptions {
+  language: string;
+  ogLocale: string;
+  // Every translated version of the page, including the current one
+  alternates: LocaleAlternate[];
+  // Page URL without ?lang=, where the language is negotiated
+  defaultUrl: string;
 }
 
 interface SeoRenderOptions {
@@ -19,6 +54,11 @@ interface SeoRenderOptions {
   imageUrl: string;
   customTitleSegment?: string;
   analyticsId?: string;
+  ogType?: OgType;
+  price?: { amount: number; currency: string };
+  themeColor?: string;
+  structuredData?: StructuredDataOptions;
+  locale?: LocaleOptions;
 }
 
 export class SeoHelper {
@@ -29,6 +69,8 @@ export class SeoHelper {
   private maintenanceHtmlPath: string;
   private faviconUrl: string;
   private isServerDown: boolean;
+  private templates?: TemplateCache;
+  private imageMetaLookup?: (url: string) => ImageMeta | undefined;
 
   constructor({
     siteName,
@@ -38,6 +80,8 @@ export class SeoHelper {
     maintenanceHtmlPath,
     faviconUrl,
     isServerDown,
+    templates,
+    imageMetaLookup,
   }: SeoHelperOptions) {
     this.siteName = siteName;
     this.rootTitle = rootTitle;
@@ -46,6 +90,8 @@ export class SeoHelper {
     this.maintenanceHtmlPath = maintenanceHtmlPath;
     this.faviconUrl = faviconUrl;
     this.isServerDown = isServerDown;
+    this.templates = templates;
+    this.imageMetaLookup = imageMetaLookup;
   }
 
   formatTitle(pathSegment: string): string {
@@ -55,37 +101,203 @@ export class SeoHelper {
       .join(' ');
   }
 
-  private async fetchImageMeta(
-    url: string
-  ): Promise<{ type: string; width: number; height: number }> {
-    try {
-      const response = await axios.get(url, { responseType: 'arraybuffer' });
-      const dimensions = imageSize(response.data as Buffer);
-
-      return {
-        type: response.headers['content-type'] || 'image/png',
-        width: dimensions.width ?? 1920,
-        height: dimensions.height ?? 1080,
-      };
-    } catch (error: unknown) {
-      console.error(
-        `Error fetching image metadata for URL ${url}:`,
-        (error as Error).message
-      );
-      return {
+  // Reads cached dimensions only; rendering never waits on the image host
+  private getImageMeta(url: string): ImageMeta {
+    return (
+      this.imageMetaLookup?.(url) ?? {
         type: 'image/png',
         width: 1920,
         height: 1080,
-      };
+      }
+    );
+  }
+
+  private toSchemaAvailability(availability?: string): string {
+    switch ((availability || '').toLowerCase().replace(/[\s_]+/g, '')) {
+      case 'outofstock':
+        return 'https://schema.org/OutOfStock';
+      case 'preorder':
+        return 'https://schema.org/PreOrder';
+      case 'backorder':
+        return 'https://schema.org/BackOrder';
+      default:
+        return 'https://schema.org/InStock';
     }
   }
 
+  // Websites are stored with or without a scheme; invalid ones are dropped
+  private toWebsiteUrl(website?: string): string | undefined {
+    if (!website) return undefined;
+    const candidate = /^https?:\/\//i.test(website)
+      ? website
+      : `https://${website}`;
+    try {
+      return new URL(candidate).href;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private buildArtistNode(
+    artist: ArtistEntity,
+    socials: SocialEntity[],
+    baseUrl: string
+  ): JsonLdNode {
+    const isPerson = /solo|person|individual|dj/i.test(artist.type || '');
+    return {
+      '@type': isPerson ? 'Person' : 'MusicGroup',
+      '@id': `${baseUrl}/#artist`,
+      name: artist.name,
+      description: artist.bio,
+      url: this.toWebsiteUrl(artist.website) ?? baseUrl,
+      sameAs: socials.map((s) => s.url).filter(Boolean),
+    };
+  }
+
+  private buildShopNodes(
+    shop: ShopEntity,
+    baseUrl: string,
+    imageUrl: string
+  ): JsonLdNode[] {
+    return [
+      {
+        '@type': 'WebSite',
+        '@id': `${baseUrl}/#website`,
+        name: this.siteName,
+        url: `${baseUrl}/`,
+        publisher: { '@id': `${baseUrl}/#store` },
+      },
+      {
+        '@type': 'Store',
+        '@id': `${baseUrl}/#store`,
+        name: shop.name,
+        url: `${baseUrl}/`,
+        image: imageUrl,
+        brand: { '@id': `${baseUrl}/#artist` },
+      },
+    ];
+  }
+
+  private buildProductNode(
+    product: ProductEntity,
+    url: string,
+    baseUrl: string,
+    currency: string
+  ): JsonLdNode {
+    const offers = product.variants.map((v) => ({
+      '@type': 'Offer',
+      sku: v.id,
+      name: v.title,
+      url,
+      price: v.price.toFixed(2),
+      priceCurrency: v.currency || currency,
+      availability: this.toSchemaAvailability(v.availability),
+    }));
+    const prices = product.variants.map((v) => v.price);
+    const lowPrice = Math.min(...prices);
+    const highPrice = Math.max(...prices);
+
+    return {
+      '@type': 'Product',
+      '@id': `${url}#product`,
+      name: product.title,
+      description: product.description,
+      sku: product.groupId,
+      category: product.productType,
+      image: product.variants.map((v) => v.image).filter(Boolean),
+      brand: { '@id': `${baseUrl}/#artist` },
+      offers:
+        offers.length === 1 || lowPrice === highPrice
+          ? offers[0]
+          : {
+              '@type': 'AggregateOffer',
+              priceCurrency: currency,
+              lowPrice: lowPrice.toFixed(2),
+              highPrice: highPrice.toFixed(2),
+              offerCount: offers.length,
+              offers,
+            },
+    };
+  }
+
+  private renderStructuredData(
+    {
+      baseUrl,
+      artist,
+      shop,
+      socials,
+      product,
+      currency,
+    }: StructuredDataOptions,
+    url: string,
+    imageUrl: string
+  ): string {
+    const graph: JsonLdNode[] = [
+      this.buildArtistNode(artist, socials, baseUrl),
+      ...this.buildShopNodes(shop, baseUrl, imageUrl),
+    ];
+    if (product?.variants.length) {
+      graph.push(
+        this.buildProductNode(
+          product,
+          url,
+          baseUrl,
+          currency || product.variants[0].currency
+        )
+      );
+    }
+
+    // Escape markup characters so feed text can't close the script tag or
+    // open a comment, and line separators that break older JS parsers
+    const json = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@graph': graph,
+    }).replace(
+      /[<>&\u2028\u2029]/g,
+      (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`
+    );
+
+    return `
+    <script type="application/ld+json">${json}</script>`;
+  }
+
+  private renderLocaleTags({
+    ogLocale,
+    alternates,
+    defaultUrl,
+  }: LocaleOptions): string {
+    const esc = (value: string) => he.escape(value);
+    let tags = `
+    <meta property="og:locale" content="${esc(ogLocale)}">`;
+
+    for (const alternate of alternates) {
+      if (alternate.ogLocale !== ogLocale) {
+        tags += `
+    <meta property="og:locale:alternate" content="${esc(alternate.ogLocale)}">`;
+      }
+    }
+    for (const alternate of alternates) {
+      tags += `
+    <link rel="alternate" hreflang="${esc(alternate.language)}" href="${esc(alternate.url)}">`;
+    }
+    // Without ?lang= the language is negotiated from Accept-Language
+    tags += `
+    <link rel="alternate" hreflang="x-default" href="${esc(defaultUrl)}">`;
+
+    return tags;
+  }
+
   async renderHtml({
     path,
     url,
     description,
     imageUrl,
     customTitleSegment = '',
+    ogType = 'website',
+    price,
+    themeColor,
+    structuredData,
+    locale,
   }: SeoRenderOptions): Promise<string> {
     const isRoot = path === '/';
     const titleSegment = isRoot
@@ -93,26 +305,65 @@ export class SeoHelper {
       : this.formatTitle(path.split('/')[1] || '');
     const pageTitle = `${this.rootTitle} - ${customTitleSegment || titleSegment}`;
 
-    const { type, width, height } = await this.fetchImageMeta(imageUrl);
-    const metaTags = `
-    <meta name="description" content="${description}">
-    <meta property="og:url" content="${url}">
-    <meta property="og:type" content="website">
-    <meta property="og:site_name" content="${this.siteName}">
-    <meta property="og:title" content="${pageTitle}">
-    <meta property="og:description" content="${description}">
-    <meta property="og:image" content="${imageUrl}">
+    const { type, width, height } = this.getImageMeta(imageUrl);
+    // Locally cached media is site-relative; crawlers need absolute URLs
+    const absoluteImageUrl = new URL(imageUrl, url).href;
+    const esc = (value: string) => he.escape(value);
+    let metaTags = `
+    <link rel="canonical" href="${esc(url)}">
+    <meta name="description" content="${esc(description)}">
+    <meta property="og:url" content="${esc(url)}">
+    <meta property="og:type" content="${ogType}">
+    <meta property="og:site_name" content="${esc(this.siteName)}">
+    <meta property="og:title" content="${esc(pageTitle)}">
+    <meta property="og:description" content="${esc(description)}">
+    <meta property="og:image" content="${esc(absoluteImageUrl)}">
     <meta property="og:image:height" content="${height}">
     <meta property="og:image:width" content="${width}">
-    <meta property="og:image:type" content="${type}">`;
+    <meta property="og:image:type" content="${esc(type)}">`;
 
-    let html = fs.readFileSync(
-      this.isServerDown ? this.maintenanceHtmlPath : this.indexHtmlPath,
-      'utf8'
-    );
-    html = html.replace('{metaTags}', metaTags);
-    html = html.replace('{favicon_url}', this.faviconUrl);
-    if (!this.isServerDown) html = html.replace('{title}', pageTitle);
+    if (price) {
+      metaTags += `
+    <meta property="product:price:amount" content="${price.amount.toFixed(2)}">
+    <meta property="product:price:currency" content="${esc(price.currency)}">`;
+    }
+
+    if (themeColor) {
+      metaTags += `
+    <meta name="theme-color" content="${esc(themeColor)}">`;
+    }
+
+    if (locale) {
+      metaTags += this.renderLocaleTags(locale);
+    }
+
+    if (structuredData) {
+      metaTags += this.renderStructuredData(
+        structuredData,
+        url,
+        absoluteImageUrl
+      );
+    }
+
+    const templatePath = this.isServerDown
+      ? this.maintenanceHtmlPath
+      : this.indexHtmlPath;
+    let html = this.templates
+      ? this.templates.get(templatePath)
+      : fs.readFileSync(templatePath, 'utf8');
+    // Replacer functions keep "$&", "$'" etc. in feed text from being
+    // expanded as replacement patterns
+    html = html.replace('{metaTags}', () => metaTags);
+    html = html.replace('{favicon_url}', () => this.faviconUrl);
+    if (locale) {
+      html = html.replace(
+        /<html lang="[^"]*"/,
+        () => `<html lang="${esc(locale.language)}"`
+      );
+    }
+    if (!this.isServerDown) {
+      html = html.replace('{title}', () => esc(pageTitle));
+    }
 
     return html;
   }
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { ShopTheme } from '../interfaces/theme';
+
+export const DEFAULT_SHOP_THEME: ShopTheme = {
+  mode: 'light',
+  primaryColor: '#1976d2',
+  secondaryColor: '#9c27b0',
+  footerColor: '#000000',
+  fontFamily: "'Roboto', sans-serif",
+  logoPlacement: 'none',
+};
+
+const hexColor = z.string().regex(/^#(?:[0-9a-f]{3}){1,2}$/i);
+// Font stacks end up in CSS, so only allow characters a stack needs
+const fontFamily = z
+  .string()
+  .max(200)
+  .regex(/^[\w\s,'"-]+$/);
+
+// Each field falls back on its own, so one bad value keeps the rest
+const themeSchema = z.object({
+  mode: z.enum(['light', 'dark']).catch(DEFAULT_SHOP_THEME.mode),
+  primaryColor: hexColor.catch(DEFAULT_SHOP_THEME.primaryColor),
+  secondaryColor: hexColor.catch(DEFAULT_SHOP_THEME.secondaryColor),
+  footerColor: hexColor.catch(DEFAULT_SHOP_THEME.footerColor),
+  fontFamily: fontFamily.catch(DEFAULT_SHOP_THEME.fontFamily),
+  headingFontFamily: fontFamily.optional().catch(undefined),
+  fontStylesheetUrl: z
+    .string()
+    .regex(/^https:\/\/\S+$/)
+    .optional()
+    .catch(undefined),
+  logoPlacement: z
+    .enum(['none', 'header', 'banner'])
+    .catch(DEFAULT_SHOP_THEME.logoPlacement),
+});
+
+export function parseShopTheme(value: unknown): ShopTheme {
+  const input = value && typeof value === 'object' ? value : {};
+  return themeSchema.parse(input) as ShopTheme;
+}
@@ -0,0 +1,297 @@
+import {
+  createStorefrontApiClient,
+  StorefrontApiClient,
+} from '@shopify/storefront-api-client';
+import { z } from 'zod';
+import {
+  CartEntity,
+  CartLineInput,
+  Money,
+  ShopifyCredentials,
+  StorefrontCart,
+  StorefrontUserError,
+} from '../interfaces/cart';
+import { logger } from './logger';
+
+const credentialsSchema = z.record(
+  z.string(),
+  z.object({
+    storeDomain: z.string().min(1),
+    publicAccessToken: z.string().min(1),
+    apiVersion: z.string().min(1),
+    apiUrl: z.string().url().optional(),
+  })
+);
+
+const CART_FIELDS = `
+  fragment CartFields on Cart {
+    id
+    checkoutUrl
+    totalQuantity
+    cost {
+      subtotalAmount { amount currencyCode }
+      totalAmount { amount currencyCode }
+    }
+    lines(first: 100) {
+      nodes {
+        id
+        quantity
+        cost { totalAmount { amount currencyCode } }
+        merchandise {
+          ... on ProductVariant {
+            id
+            title
+            image { url }
+            price { amount currencyCode }
+            product { title }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CART_QUERY = `
+  query Cart($cartId: ID!) {
+    cart(id: $cartId) { ...CartFields }
+  }
+  ${CART_FIELDS}
+`;
+
+const CART_CREATE = `
+  mutation CartCreate($lines: [CartLineInput!]!) {
+    cartCreate(input: { lines: $lines }) {
+      cart { ...CartFields }
+      userErrors { field message }
+    }
+  }
+  ${CART_FIELDS}
+`;
+
+const CART_LINES_ADD = `
+  mutation CartLinesAdd($cartId: ID!, $lines: [CartLineInput!]!) {
+    cartLinesAdd(cartId: $cartId, lines: $lines) {
+      cart { ...CartFields }
+      userErrors { field message }
+    }
+  }
+  ${CART_FIELDS}
+`;
+
+const CART_LINES_UPDATE = `
+  mutation CartLinesUpdate($cartId: ID!, $lines: [CartLineUpdateInput!]!) {
+    cartLinesUpdate(cartId: $cartId, lines: $lines) {
+      cart { ...CartFields }
+      userErrors { field message }
+    }
+  }
+  ${CART_FIELDS}
+`;
+
+const CART_LINES_REMOVE = `
+  mutation CartLinesRemove($cartId: ID!, $lineIds: [ID!]!) {
+    cartLinesRemove(cartId: $cartId, lineIds: $lineIds) {
+      cart { ...CartFields }
+      userErrors { field message }
+    }
+  }
+  ${CART_FIELDS}
+`;
+
+interface CartMutationResult {
+  cart: StorefrontCart | null;
+  userErrors: StorefrontUserError[];
+}
+
+export class CartError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'CartError';
+  }
+}
+
+/**
+ * Storefront API cart operations, one client per shop. Shops without
+ * configured credentials have no cart and keep linking out to the feed URLs.
+ */
+export class ShopifyCartClient {
+  private credentials: Record<string, ShopifyCredentials>;
+  private clients = new Map<string, StorefrontApiClient>();
+
+  constructor(credentialsJson: string) {
+    const parsed = credentialsSchema.safeParse(
+      JSON.parse(credentialsJson || '{}')
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid SHOPIFY_STOREFRONTS configuration: ${parsed.error.message}`
+      );
+    }
+
+    this.credentials = parsed.data;
+  }
+
+  isEnabled(shopId: string): boolean {
+    return Boolean(this.credentials[shopId]);
+  }
+
+  /**
+   * Storefront feeds carry ids like "shopify_US_<product>_<variant>"; the
+   * last number is the variant's Storefront API id. Anything else is
+   * rejected rather than guessed, so a stray number never adds the wrong
+   * variant to a cart.
+   */
+  static toMerchandiseId(variantId: string): string | undefined {
+    if (/^gid:\/\/shopify\/ProductVariant\/\d+$/.test(variantId)) {
+      return variantId;
+    }
+
+    const match = variantId.match(/^shopify_[A-Z]{2}_\d+_(\d+)$/);
+    return match ? `gid://shopify/ProductVariant/${match[1]}` : undefined;
+  }
+
+  async getCart(shopId: string, cartId: string): Promise<CartEntity | null> {
+    const data = await this.request<{ cart: StorefrontCart | null }>(
+      shopId,
+      CART_QUERY,
+      { cartId }
+    );
+    return data.cart ? this.toCartEntity(data.cart) : null;
+  }
+
+  async addLines(
+    shopId: string,
+    cartId: string | undefined,
+    lines: CartLineInput[]
+  ): Promise<CartEntity> {
+    if (!cartId) {
+      return this.mutate(shopId, CART_CREATE, 'cartCreate', { lines });
+    }
+    return this.mutate(shopId, CART_LINES_ADD, 'cartLinesAdd', {
+      cartId,
+      lines,
+    });
+  }
+
+  async updateLine(
+    shopId: string,
+    cartId: string,
+    lineId: string,
+    quantity: number
+  ): Promise<CartEntity> {
+    return this.mutate(shopId, CART_LINES_UPDATE, 'cartLinesUpdate', {
+      cartId,
+      lines: [{ id: lineId, quantity }],
+    });
+  }
+
+  async removeLine(
+    shopId: string,
+    cartId: string,
+    lineId: string
+  ): Promise<CartEntity> {
+    return this.mutate(shopId, CART_LINES_REMOVE, 'cartLinesRemove', {
+      cartId,
+      lineIds: [lineId],
+    });
+  }
+
+  private getClient(shopId: string): StorefrontApiClient {
+    const existing = this.clients.get(shopId);
+    if (existing) return existing;
+
+    const credentials = this.credentials[shopId];
+    if (!credentials) {
+      throw new CartError('Cart is not available for this shop', 404);
+    }
+
+    const { storeDomain, publicAccessToken, apiVersion, apiUrl } = credentials;
+    const client = createStorefrontApiClient({
+      storeDomain,
+      publicAccessToken,
+      apiVersion,
+      // The client always targets https://<storeDomain>; apiUrl points it
+      // at another endpoint such as the local mock Storefront server
+      customFetchApi: apiUrl ? (_url, init) => fetch(apiUrl, init) : undefined,
+    });
+    this.clients.set(shopId, client);
+    return client;
+  }
+
+  private async request<T>(
+    shopId: string,
+    operation: string,
+    variables: Record<string, unknown>
+  ): Promise<T> {
+    const { data, errors } = await this.getClient(shopId).request<T>(
+      operation,
+      { variables }
+    );
+
+    if (errors || !data) {
+      logger.error('Storefront API request failed', {
+        shopId,
+        error: errors?.graphQLErrors ?? errors?.message,
+      });
+      throw new CartError('Storefront API request failed', 502);
+    }
+
+    return data;
+  }
+
+  private async mutate(
+    shopId: string,
+    operation: string,
+    field: string,
+    variables: Record<string, unknown>
+  ): Promise<CartEntity> {
+    const data = await this.request<Record<string, CartMutationResult>>(
+      shopId,
+      operation,
+      variables
+    );
+    const { cart, userErrors } = data[field];
+
+    if (userErrors.length || !cart) {
+      // Errors on the cartId field mean the cart expired or was checked out
+      const cartMissing =
+        !cart && userErrors.every((e) => e.field?.includes('cartId'));
+      throw new CartError(
+        userErrors.map((e) => e.message).join('; ') || 'Cart not found',
+        cartMissing ? 404 : 400
+      );
+    }
+
+    return this.toCartEntity(cart);
+  }
+
+  private toMoney({
+    amount,
+    currencyCode,
+  }: StorefrontCart['cost']['totalAmount']): Money {
+    return { amount: parseFloat(amount), currencyCode };
+  }
+
+  private toCartEntity(cart: StorefrontCart): CartEntity {
+    return {
+      id: cart.id,
+      checkoutUrl: cart.checkoutUrl,
+      totalQuantity: cart.totalQuantity,
+      subtotal: this.toMoney(cart.cost.subtotalAmount),
+      total: this.toMoney(cart.cost.totalAmount),
+      lines: cart.lines.nodes.map((line) => ({
+        id: line.id,
+        quantity: line.quantity,
+        merchandiseId: line.merchandise.id,
+        title: line.merchandise.product.title,
+        variantTitle: line.merchandise.title,
+        image: line.merchandise.image?.url,
+        price: this.toMoney(line.merchandise.price),
+        total: this.toMoney(line.cost.totalAmount),
+      })),
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import he from 'he';
+import { ShopEntity } from '../interfaces/shop';
+import { ProductEntity } from '../interfaces/product';
+import { getCategorySlug } from './category';
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: string;
+}
+
+export class SitemapBuilder {
+  private baseUrl: string;
+  private maxUrlsPerSitemap: number;
+  private urls: SitemapUrl[];
+
+  constructor(
+    baseUrl: string,
+    shop: ShopEntity,
+    products: ProductEntity[],
+    maxUrlsPerSitemap: number
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.maxUrlsPerSitemap = Math.max(1, maxUrlsPerSitemap);
+    this.urls = this.collectUrls(shop, products);
+  }
+
+  private collectUrls(
+    shop: ShopEntity,
+    products: ProductEntity[]
+  ): SitemapUrl[] {
+    const urls: SitemapUrl[] = [
+      { loc: '/', lastmod: shop.syncedAt },
+      { loc: '/about', lastmod: shop.syncedAt },
+    ];
+    const categories = new Map<string, string | undefined>();
+
+    for (const product of products) {
+      urls.push({
+        loc: `/product/${encodeURIComponent(product.groupId)}`,
+        lastmod: product.syncedAt,
+      });
+
+      const slug = getCategorySlug(product.productType);
+      const known = categories.get(slug);
+      if (slug && (!known || (product.syncedAt && product.syncedAt > known))) {
+        categories.set(slug, product.syncedAt);
+      }
+    }
+
+    categories.forEach((lastmod, slug) =>
+      urls.push({ loc: `/category/${slug}`, lastmod })
+    );
+
+    return urls;
+  }
+
+  get pageCount(): number {
+    return Math.ceil(this.urls.length / this.maxUrlsPerSitemap);
+  }
+
+  get isIndex(): boolean {
+    return this.pageCount > 1;
+  }
+
+  private pageUrls(page: number): SitemapUrl[] {
+    const start = (page - 1) * this.maxUrlsPerSitemap;
+    return this.urls.slice(start, start + this.maxUrlsPerSitemap);
+  }
+
+  private lastmodTag(lastmod?: string): string {
+    return lastmod ? `<lastmod>${he.escape(lastmod)}</lastmod>` : '';
+  }
+
+  renderIndex(): string {
+    const entries = Array.from({ length: this.pageCount }, (_, i) => {
+      const loc = he.escape(`${this.baseUrl}/sitemap-${i + 1}.xml`);
+      const lastmod = this.pageUrls(i + 1)
+        .map((u) => u.lastmod)
+        .filter(Boolean)
+        .sort()
+        .pop();
+      return `  <sitemap><loc>${loc}</loc>${this.lastmodTag(lastmod)}</sitemap>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...entries,
+      '</sitemapindex>',
+    ].join('\n');
+  }
+
+  renderPage(page: number): string | undefined {
+    if (page < 1 || page > this.pageCount) return undefined;
+
+    const entries = this.pageUrls(page).map(({ loc, lastmod }) => {
+      const fullLoc = he.escape(this.baseUrl + loc);
+      return `  <url><loc>${fullLoc}</loc>${this.lastmodTag(lastmod)}</url>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...entries,
+      '</urlset>',
+    ].join('\n');
+  }
+}
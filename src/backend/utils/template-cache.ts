@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from './logger';
+
+export class TemplateCache {
+  private templates = new Map<string, string>();
+  private listeners: ((filePath: string) => void)[] = [];
+  private currentVersion = '';
+
+  /** Hash of every loaded template, used to discard renders of old builds. */
+  get version(): string {
+    return this.currentVersion;
+  }
+
+  private updateVersion() {
+    const hash = crypto.createHash('sha1');
+    Array.from(this.templates.keys())
+      .sort()
+      .forEach((key) => hash.update(key).update(this.templates.get(key)));
+    this.currentVersion = hash.digest('hex');
+  }
+
+  /** Returns the template contents, loading and watching it on first use. */
+  get(filePath: string): string {
+    const cached = this.templates.get(filePath);
+    if (cached !== undefined) return cached;
+
+    const contents = fs.readFileSync(filePath, 'utf8');
+    this.templates.set(filePath, contents);
+    this.updateVersion();
+    this.watch(filePath);
+    return contents;
+  }
+
+  onChange(listener: (filePath: string) => void) {
+    this.listeners.push(listener);
+  }
+
+  // watchFile polls, so it keeps working when a deploy replaces the file
+  private watch(filePath: string) {
+    fs.watchFile(filePath, { interval: 1000 }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+
+      try {
+        this.templates.set(filePath, fs.readFileSync(filePath, 'utf8'));
+        this.updateVersion();
+        logger.info('Reloaded template', { path: filePath });
+      } catch (err) {
+        logger.error('Failed to reload template', {
+          path: filePath,
+          error: (err as Error).message,
+        });
+        return;
+      }
+      this.listeners.forEach((listener) => listener(filePath));
+    }).unref();
+  }
+}
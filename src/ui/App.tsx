@@ -5,13 +5,13 @@ import {
   Route,
   Outlet,
 } from 'react-router-dom';
-import { ThemeProvider, createTheme } from '@mui/material/styles';
-import CssBaseline from '@mui/material/CssBaseline';
 import MainLayout from './layouts/MainLayout.tsx';
 import NotFoundPage from './pages/NotFoundPage.tsx';
 import HomePage from './pages/HomePage.tsx';
-
-const theme = createTheme(); // Create a theme instance
+import ProductPage from './pages/ProductPage.tsx';
+import AboutPage from './pages/AboutPage.tsx';
+import CategoryPage from './pages/CategoryPage.tsx';
+import { ShopThemeProvider } from './context/ShopThemeContext.tsx';
 
 // MainLayout Wrapper
 const MainWrapper = () => (
@@ -22,19 +22,21 @@ const MainWrapper = () => (
 
 const App: React.FC = () => {
   return (
-    <ThemeProvider theme={theme}>
-      <CssBaseline />
+    <ShopThemeProvider>
       <Router>
         <Routes>
           <Route element={<MainWrapper />}>
             <Route path="/">
               <Route index element={<HomePage />} />
             </Route>
+            <Route path="/product/:groupId" element={<ProductPage />} />
+            <Route path="/about" element={<AboutPage />} />
+            <Route path="/category/:slug" element={<CategoryPage />} />
             <Route path="*" element={<NotFoundPage />} />
           </Route>
         </Routes>
       </Router>
-    </ThemeProvider>
+    </ShopThemeProvider>
   );
 };
 
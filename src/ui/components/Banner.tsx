@@ -5,9 +5,16 @@ interface BannerProps {
   imageUrl: string;
   mainTitle: string;
   subTitle: string;
+  // Shown in place of the title when the shop places its logo in the banner
+  logoUrl?: string;
 }
 
-const Banner: React.FC<BannerProps> = ({ imageUrl, mainTitle, subTitle }) => {
+const Banner: React.FC<BannerProps> = ({
+  imageUrl,
+  mainTitle,
+  subTitle,
+  logoUrl,
+}) => {
   const theme = useTheme();
   const isSmall = useMediaQuery(theme.breakpoints.down('sm'));
 
@@ -67,13 +74,27 @@ const Banner: React.FC<BannerProps> = ({ imageUrl, mainTitle, subTitle }) => {
           px: 2,
         }}
       >
-        <Typography
-          variant="h2"
-          fontWeight="bold"
-          sx={{ fontSize: isSmall ? '2rem' : '4rem' }}
-        >
-          {mainTitle}
-        </Typography>
+        {logoUrl ? (
+          <Box
+            component="img"
+            src={logoUrl}
+            alt={mainTitle}
+            sx={{
+              maxWidth: '80%',
+              maxHeight: isSmall ? 120 : 220,
+              objectFit: 'contain',
+              mb: 2,
+            }}
+          />
+        ) : (
+          <Typography
+            variant="h2"
+            fontWeight="bold"
+            sx={{ fontSize: isSmall ? '2rem' : '4rem' }}
+          >
+            {mainTitle}
+          </Typography>
+        )}
         <Typography variant="h5" sx={{ fontSize: isSmall ? '1rem' : '2rem' }}>
           {subTitle}
         </Typography>
@@ -0,0 +1,138 @@
+import React from 'react';
+import {
+  Avatar,
+  Badge,
+  Box,
+  Button,
+  Divider,
+  Drawer,
+  Fab,
+  IconButton,
+  Typography,
+} from '@mui/material';
+import { FaCartShopping, FaMinus, FaPlus, FaTrash } from 'react-icons/fa6';
+import { useCart } from '../context/CartContext.tsx';
+import { useCurrency } from '../context/CurrencyContext.tsx';
+import { useI18n } from '../context/I18nContext.tsx';
+
+const CartDrawer: React.FC = () => {
+  const { cart, enabled, busy, open, setOpen, updateQuantity, removeLine } =
+    useCart();
+
+  const { formatMoney } = useCurrency();
+  const { t } = useI18n();
+
+  if (!enabled) return null;
+
+  const lines = cart?.lines ?? [];
+
+  return (
+    <>
+      {/* 🛒 Floating cart button */}
+      <Fab
+        color="primary"
+        aria-label={t('cart.open')}
+        onClick={() => setOpen(true)}
+        sx={{ position: 'fixed', top: 16, right: 16, zIndex: 1200 }}
+      >
+        <Badge badgeContent={cart?.totalQuantity || 0} color="secondary">
+          <FaCartShopping size={20} />
+        </Badge>
+      </Fab>
+
+      <Drawer anchor="right" open={open} onClose={() => setOpen(false)}>
+        <Box
+          sx={{
+            width: { xs: '100vw', sm: 400 },
+            height: '100%',
+            display: 'flex',
+            flexDirection: 'column',
+            p: 3,
+          }}
+        >
+          <Typography variant="h5" fontWeight="bold" mb={2}>
+            {t('cart.title')}
+          </Typography>
+
+          {/* 📦 Cart lines */}
+          <Box flexGrow={1} overflow="auto">
+            {!lines.length && (
+              <Typography color="text.secondary">{t('cart.empty')}</Typography>
+            )}
+
+            {lines.map((line) => (
+              <Box key={line.id} display="flex" gap={2} py={2}>
+                <Avatar
+                  variant="rounded"
+                  src={line.image}
+                  alt={line.title}
+                  sx={{ width: 64, height: 64 }}
+                />
+                <Box flexGrow={1}>
+                  <Typography fontWeight={600}>{line.title}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {line.variantTitle} · {formatMoney(line.price)}
+                  </Typography>
+                  <Box display="flex" alignItems="center" gap={1} mt={1}>
+                    <IconButton
+                      size="small"
+                      aria-label={t('cart.decrease')}
+                      disabled={busy}
+                      onClick={() => updateQuantity(line.id, line.quantity - 1)}
+                    >
+                      <FaMinus size={12} />
+                    </IconButton>
+                    <Typography>{line.quantity}</Typography>
+                    <IconButton
+                      size="small"
+                      aria-label={t('cart.increase')}
+                      disabled={busy}
+                      onClick={() => updateQuantity(line.id, line.quantity + 1)}
+                    >
+                      <FaPlus size={12} />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      aria-label={t('cart.remove')}
+                      disabled={busy}
+                      onClick={() => removeLine(line.id)}
+                      sx={{ ml: 'auto' }}
+                    >
+                      <FaTrash size={12} />
+                    </IconButton>
+                  </Box>
+                </Box>
+                <Typography fontWeight={600}>
+                  {formatMoney(line.total)}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+
+          {/* 💳 Totals and checkout */}
+          {cart && lines.length > 0 && (
+            <>
+              <Divider sx={{ my: 2 }} />
+              <Box display="flex" justifyContent="space-between" mb={2}>
+                <Typography variant="h6">{t('cart.subtotal')}</Typography>
+                <Typography variant="h6" fontWeight="bold">
+                  {formatMoney(cart.subtotal)}
+                </Typography>
+              </Box>
+              <Button
+                variant="contained"
+                size="large"
+                disabled={busy}
+                href={cart.checkoutUrl}
+              >
+                {t('cart.checkout')}
+              </Button>
+            </>
+          )}
+        </Box>
+      </Drawer>
+    </>
+  );
+};
+
+export default CartDrawer;
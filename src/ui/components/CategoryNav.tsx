@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Chip } from '@mui/material';
+import axios from 'axios';
+import { Link as RouterLink } from 'react-router-dom';
+import { Category } from '../interfaces/shop';
+import { useI18n } from '../context/I18nContext.tsx';
+
+interface CategoryNavProps {
+  activeSlug?: string;
+}
+
+const CategoryNav: React.FC<CategoryNavProps> = ({ activeSlug }) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await axios.get<Category[]>('/categories');
+        setCategories(response.data);
+      } catch (err) {
+        console.error('Error fetching categories:', err);
+      }
+    };
+
+    fetchCategories();
+  }, []);
+
+  // A single category adds nothing over the full catalog
+  if (categories.length < 2) return null;
+
+  return (
+    <Box
+      component="nav"
+      aria-label={t('category.nav')}
+      display="flex"
+      flexWrap="wrap"
+      justifyContent="center"
+      gap={1}
+      px={4}
+      mb={3}
+    >
+      <Chip
+        label={t('category.all')}
+        component={RouterLink}
+        to="/"
+        clickable
+        color={activeSlug ? 'default' : 'primary'}
+        variant={activeSlug ? 'outlined' : 'filled'}
+      />
+      {categories.map((category) => {
+        const isActive = category.slug === activeSlug;
+        return (
+          <Chip
+            key={category.slug}
+            label={`${category.name} (${category.productCount})`}
+            component={RouterLink}
+            to={`/category/${category.slug}`}
+            clickable
+            color={isActive ? 'primary' : 'default'}
+            variant={isActive ? 'filled' : 'outlined'}
+          />
+        );
+      })}
+    </Box>
+  );
+};
+
+export default CategoryNav;
@@ -1,11 +1,16 @@
 import React, { useEffect } from 'react';
-import { Box, Typography } from '@mui/material';
+import { Box, Typography, useTheme } from '@mui/material';
 import { useShop } from '../context/ShopContext.tsx';
+import { useI18n } from '../context/I18nContext.tsx';
+import { useShopTheme } from '../context/ShopThemeContext.tsx';
 
 const Footer: React.FC = () => {
   const [shopName, setShopName] = React.useState<string>('');
 
   const { getShopInfo } = useShop();
+  const { t } = useI18n();
+  const { shopTheme } = useShopTheme();
+  const theme = useTheme();
 
   useEffect(() => {
     const fetchShopName = async () => {
@@ -25,8 +30,8 @@ const Footer: React.FC = () => {
   return (
     <Box
       sx={{
-        backgroundColor: '#000', // Dark blue background
-        color: 'white', // White text
+        backgroundColor: shopTheme.footerColor,
+        color: theme.palette.getContrastText(shopTheme.footerColor),
         padding: '10px 0',
         textAlign: 'center',
         position: 'relative',
@@ -35,7 +40,10 @@ const Footer: React.FC = () => {
       }}
     >
       <Typography variant="body2">
-        © {new Date().getFullYear()} {shopName} Shop. All rights reserved.
+        {t('footer.copyright', {
+          year: new Date().getFullYear(),
+          shop: shopName,
+        })}
       </Typography>
     </Box>
   );
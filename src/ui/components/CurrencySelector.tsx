@@ -0,0 +1,47 @@
+import React from 'react';
+import { Box, MenuItem, TextField, Typography } from '@mui/material';
+import { useCurrency } from '../context/CurrencyContext.tsx';
+import { useI18n } from '../context/I18nContext.tsx';
+
+const CurrencySelector: React.FC = () => {
+  const { currencies, shopCurrency, displayCurrency, setDisplayCurrency } =
+    useCurrency();
+  const { t } = useI18n();
+
+  if (currencies.length < 2) return null;
+
+  return (
+    <Box
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+      gap={1}
+      py={2}
+    >
+      <Typography variant="body2" color="text.secondary">
+        {t('currency.label')}
+      </Typography>
+      <TextField
+        select
+        size="small"
+        value={displayCurrency}
+        onChange={(e) => setDisplayCurrency(e.target.value)}
+        sx={{ minWidth: 110 }}
+        slotProps={{ htmlInput: { 'aria-label': t('currency.select') } }}
+      >
+        <MenuItem value="">
+          {shopCurrency || t('currency.shopDefault')}
+        </MenuItem>
+        {currencies
+          .filter((c) => c !== shopCurrency)
+          .map((currency) => (
+            <MenuItem key={currency} value={currency}>
+              {currency}
+            </MenuItem>
+          ))}
+      </TextField>
+    </Box>
+  );
+};
+
+export default CurrencySelector;
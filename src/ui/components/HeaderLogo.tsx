@@ -0,0 +1,33 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+import { useShopTheme } from '../context/ShopThemeContext.tsx';
+
+// Pinned top-left, opposite the cart button
+const HeaderLogo: React.FC = () => {
+  const { shopTheme, shopName, logoUrl } = useShopTheme();
+
+  if (shopTheme.logoPlacement !== 'header' || !logoUrl) return null;
+
+  return (
+    <Box
+      component={RouterLink}
+      to="/"
+      sx={{ position: 'fixed', top: 16, left: 16, zIndex: 1200 }}
+    >
+      <Box
+        component="img"
+        src={logoUrl}
+        alt={shopName || ''}
+        sx={{
+          display: 'block',
+          maxHeight: 56,
+          maxWidth: 180,
+          objectFit: 'contain',
+        }}
+      />
+    </Box>
+  );
+};
+
+export default HeaderLogo;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Box, MenuItem, TextField, Typography } from '@mui/material';
+import { useI18n } from '../context/I18nContext.tsx';
+
+function getLanguageName(language: string): string {
+  try {
+    const name = new Intl.DisplayNames([language], { type: 'language' }).of(
+      language
+    );
+    return name ? name.charAt(0).toUpperCase() + name.slice(1) : language;
+  } catch {
+    return language;
+  }
+}
+
+const LanguageSelector: React.FC = () => {
+  const { language, supportedLanguages, setLanguage, t } = useI18n();
+
+  if (supportedLanguages.length < 2) return null;
+
+  return (
+    <Box
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+      gap={1}
+      py={2}
+    >
+      <Typography variant="body2" color="text.secondary">
+        {t('common.language')}
+      </Typography>
+      <TextField
+        select
+        size="small"
+        value={language}
+        onChange={(e) => setLanguage(e.target.value)}
+        sx={{ minWidth: 130 }}
+        slotProps={{ htmlInput: { 'aria-label': t('common.language') } }}
+      >
+        {supportedLanguages.map((lang) => (
+          <MenuItem key={lang} value={lang} lang={lang}>
+            {getLanguageName(lang)}
+          </MenuItem>
+        ))}
+      </TextField>
+    </Box>
+  );
+};
+
+export default LanguageSelector;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardMedia,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+import { FaSpotify } from 'react-icons/fa6';
+import SocialLinksBar from './SocialLinksBar';
+import { LatestReleases, Social } from '../interfaces/artist';
+import { useI18n } from '../context/I18nContext.tsx';
+
+const LatestReleasesSection: React.FC = () => {
+  const [releases, setReleases] = useState<LatestReleases | null>(null);
+  const [socials, setSocials] = useState<Social[]>([]);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const fetchMusic = async () => {
+      try {
+        const [releasesRes, socialsRes] = await Promise.all([
+          axios.get<LatestReleases>('/releases'),
+          axios.get<Social[]>('/socials'),
+        ]);
+        setReleases(releasesRes.data);
+        setSocials(socialsRes.data);
+      } catch (err) {
+        console.error('Error fetching music:', err);
+      }
+    };
+
+    fetchMusic();
+  }, []);
+
+  const youtube = releases?.youtube;
+  const spotify = releases?.spotify;
+
+  if (!youtube && !spotify && !socials.length) return null;
+
+  return (
+    <Box component="section" px={4} pb={6} width="100%" maxWidth={1200}>
+      <Box textAlign="center" mb={3}>
+        <Typography variant="h4" fontWeight="bold" color="primary">
+          {t('music.title')}
+        </Typography>
+        <Typography variant="h6" color="text.secondary" sx={{ mt: 0.5 }}>
+          {t('music.subtitle')}
+        </Typography>
+      </Box>
+
+      <Box
+        display="grid"
+        gridTemplateColumns={{
+          xs: '1fr',
+          md: youtube && spotify ? '2fr 1fr' : '1fr',
+        }}
+        gap={3}
+        alignItems="stretch"
+      >
+        {/* 📺 Latest YouTube video */}
+        {youtube && (
+          <Box
+            sx={{
+              position: 'relative',
+              paddingTop: '56.25%',
+              borderRadius: 3,
+              overflow: 'hidden',
+              boxShadow: 4,
+            }}
+          >
+            <Box
+              component="iframe"
+              src={`https://www.youtube-nocookie.com/embed/${encodeURIComponent(youtube.videoId)}`}
+              title={youtube.title}
+              loading="lazy"
+              allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+              allowFullScreen
+              sx={{
+                position: 'absolute',
+                inset: 0,
+                width: '100%',
+                height: '100%',
+                border: 0,
+              }}
+            />
+          </Box>
+        )}
+
+        {/* 🎧 Latest Spotify release */}
+        {spotify && (
+          <Card
+            sx={{
+              borderRadius: 3,
+              boxShadow: 4,
+              display: 'flex',
+              flexDirection: 'column',
+            }}
+          >
+            {spotify.imageUrl && (
+              <CardMedia
+                component="img"
+                image={spotify.imageUrl}
+                alt={spotify.name}
+                sx={{ aspectRatio: '1 / 1', objectFit: 'cover' }}
+              />
+            )}
+            <CardContent sx={{ textAlign: 'center', flexGrow: 1 }}>
+              <Typography variant="overline" color="text.secondary">
+                {t('music.newOnSpotify')}
+              </Typography>
+              <Typography variant="h6" fontWeight="bold" gutterBottom>
+                {spotify.name}
+              </Typography>
+              <Button
+                variant="contained"
+                startIcon={<FaSpotify />}
+                href={spotify.spotifyUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                {t('music.listenOnSpotify')}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </Box>
+
+      {/* 🔗 Social links */}
+      <Box mt={4}>
+        <SocialLinksBar socials={socials} />
+      </Box>
+    </Box>
+  );
+};
+
+export default LatestReleasesSection;
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Slider,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { FaMagnifyingGlass } from 'react-icons/fa6';
+import {
+  ProductQuery,
+  ProductSort,
+  SORT_OPTIONS,
+} from '../utils/product-query';
+import { formatPrice } from '../utils/price';
+import { useCurrency } from '../context/CurrencyContext.tsx';
+import { useI18n } from '../context/I18nContext.tsx';
+
+interface ProductFiltersProps {
+  query: ProductQuery;
+  productTypes: string[];
+  priceBounds: [number, number];
+  onChange: (query: ProductQuery) => void;
+}
+
+const ProductFilters: React.FC<ProductFiltersProps> = ({
+  query,
+  productTypes,
+  priceBounds,
+  onChange,
+}) => {
+  const [min, max] = priceBounds;
+  const { locale, shopCurrency } = useCurrency();
+  const { t } = useI18n();
+  const formatBound = (amount: number) =>
+    formatPrice(amount, shopCurrency, locale);
+  // Drafts hold in-progress input; otherwise the URL query is shown as-is,
+  // which keeps the inputs in step with back/forward navigation
+  const [searchDraft, setSearchDraft] = useState<string | null>(null);
+  const [priceDraft, setPriceDraft] = useState<number[] | null>(null);
+
+  const search = searchDraft ?? query.search;
+  const priceRange = priceDraft ?? [
+    query.minPrice ?? min,
+    query.maxPrice ?? max,
+  ];
+
+  // Debounce typing so every keystroke doesn't add a history entry
+  useEffect(() => {
+    if (searchDraft === null) return;
+    const timer = setTimeout(() => {
+      onChange({ ...query, search: searchDraft });
+      setSearchDraft(null);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchDraft, query, onChange]);
+
+  const toggleType = (type: string) =>
+    onChange({
+      ...query,
+      types: query.types.includes(type)
+        ? query.types.filter((selected) => selected !== type)
+        : [...query.types, type],
+    });
+
+  const commitPriceRange = (value: number[]) => {
+    setPriceDraft(null);
+    onChange({
+      ...query,
+      minPrice: value[0] > min ? value[0] : undefined,
+      maxPrice: value[1] < max ? value[1] : undefined,
+    });
+  };
+
+  const isFiltered =
+    query.search ||
+    query.types.length ||
+    query.minPrice !== undefined ||
+    query.maxPrice !== undefined ||
+    query.sort !== 'featured';
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+        px: 4,
+        mb: 3,
+        width: '100%',
+        maxWidth: 1200,
+        mx: 'auto',
+      }}
+    >
+      <Box display="flex" flexWrap="wrap" gap={2} alignItems="center">
+        {/* 🔍 Search */}
+        <TextField
+          label={t('filters.search')}
+          value={search}
+          onChange={(e) => setSearchDraft(e.target.value)}
+          size="small"
+          sx={{ flexGrow: 1, minWidth: 220 }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <FaMagnifyingGlass />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+
+        {/* ↕️ Sort */}
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel id="product-sort-label">{t('filters.sortBy')}</InputLabel>
+          <Select
+            labelId="product-sort-label"
+            label={t('filters.sortBy')}
+            value={query.sort}
+            onChange={(e) =>
+              onChange({ ...query, sort: e.target.value as ProductSort })
+            }
+          >
+            {SORT_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {isFiltered && (
+          <Button
+            onClick={() =>
+              onChange({ search: '', types: [], sort: 'featured' })
+            }
+          >
+            {t('filters.clear')}
+          </Button>
+        )}
+      </Box>
+
+      {/* 🏷️ Product types */}
+      {productTypes.length > 1 && (
+        <Box display="flex" flexWrap="wrap" gap={1}>
+          {productTypes.map((type) => (
+            <Chip
+              key={type}
+              label={type}
+              color={query.types.includes(type) ? 'primary' : 'default'}
+              variant={query.types.includes(type) ? 'filled' : 'outlined'}
+              onClick={() => toggleType(type)}
+            />
+          ))}
+        </Box>
+      )}
+
+      {/* 💲 Price range */}
+      {max > min && (
+        <Box px={1} maxWidth={400}>
+          <Typography variant="body2" color="text.secondary">
+            {t('filters.price', {
+              min: formatBound(priceRange[0]),
+              max: formatBound(priceRange[1]),
+            })}
+          </Typography>
+          <Slider
+            value={priceRange}
+            min={min}
+            max={max}
+            step={1}
+            onChange={(_, value) => setPriceDraft(value as number[])}
+            onChangeCommitted={(_, value) =>
+              commitPriceRange(value as number[])
+            }
+            valueLabelDisplay="auto"
+            getAriaLabel={(index) =>
+              index ? t('filters.maxPrice') : t('filters.minPrice')
+            }
+          />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ProductFilters;
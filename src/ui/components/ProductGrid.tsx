@@ -0,0 +1,130 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardActions,
+  CardContent,
+  CardMedia,
+  Typography,
+} from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+import { Product } from '../interfaces/shop';
+import { useCurrency } from '../context/CurrencyContext.tsx';
+import { isAvailable } from '../utils/availability';
+import { useCart } from '../context/CartContext.tsx';
+import { useI18n } from '../context/I18nContext.tsx';
+
+interface ProductGridProps {
+  products: Product[];
+}
+
+const ProductGrid: React.FC<ProductGridProps> = ({ products }) => {
+  const { enabled: cartEnabled, busy, addItem } = useCart();
+  const { formatPriceRange } = useCurrency();
+  const { t } = useI18n();
+
+  return (
+    <Box
+      display="grid"
+      gridTemplateColumns="repeat(auto-fill, minmax(260px, 1fr))"
+      gap={3}
+      px={4}
+      pb={6}
+      justifyContent="center"
+    >
+      {products.map((p) => {
+        const displayPrice = formatPriceRange(p.variants);
+        const coverImage = p.variants[0]?.image || '/placeholder.jpg';
+
+        return (
+          <Card
+            key={p.groupId}
+            sx={{
+              borderRadius: 3,
+              boxShadow: 4,
+              overflow: 'hidden',
+              display: 'flex',
+              flexDirection: 'column',
+              transition: 'transform 0.25s ease, box-shadow 0.25s ease',
+              '&:hover': {
+                transform: 'translateY(-6px)',
+                boxShadow: 8,
+              },
+            }}
+          >
+            <CardActionArea
+              component={RouterLink}
+              to={`/product/${encodeURIComponent(p.groupId)}`}
+              sx={{
+                display: 'flex',
+                flexDirection: 'column',
+                height: '100%',
+              }}
+            >
+              <CardMedia
+                component="img"
+                height="300"
+                image={coverImage}
+                alt={p.title}
+                sx={{
+                  objectFit: 'cover',
+                  width: '100%',
+                  transition: 'transform 0.3s ease',
+                  '&:hover': { transform: 'scale(1.05)' },
+                }}
+              />
+              <CardContent
+                sx={{
+                  textAlign: 'center',
+                  flexGrow: 1,
+                  p: 2,
+                  bgcolor: 'action.hover',
+                }}
+              >
+                <Typography
+                  variant="subtitle1"
+                  fontWeight="bold"
+                  gutterBottom
+                  noWrap
+                  title={p.title}
+                >
+                  {p.title}
+                </Typography>
+                <Typography color="primary" variant="body1" fontWeight={600}>
+                  {displayPrice}
+                </Typography>
+              </CardContent>
+            </CardActionArea>
+            {cartEnabled && (
+              <CardActions sx={{ justifyContent: 'center', pb: 2 }}>
+                {p.variants.length === 1 ? (
+                  <Button
+                    variant="contained"
+                    disabled={busy || !isAvailable(p.variants[0])}
+                    onClick={() => addItem(p.variants[0].id)}
+                  >
+                    {isAvailable(p.variants[0])
+                      ? t('product.addToCart')
+                      : t('product.outOfStock')}
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outlined"
+                    component={RouterLink}
+                    to={`/product/${encodeURIComponent(p.groupId)}`}
+                  >
+                    {t('product.chooseOptions')}
+                  </Button>
+                )}
+              </CardActions>
+            )}
+          </Card>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default ProductGrid;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Box, IconButton, Tooltip } from '@mui/material';
+import { IconType } from 'react-icons';
+import {
+  FaApple,
+  FaBandcamp,
+  FaFacebook,
+  FaInstagram,
+  FaLink,
+  FaSoundcloud,
+  FaSpotify,
+  FaTiktok,
+  FaXTwitter,
+  FaYoutube,
+} from 'react-icons/fa6';
+import { Social } from '../interfaces/artist';
+
+const ICONS: Record<string, IconType> = {
+  apple: FaApple,
+  bandcamp: FaBandcamp,
+  facebook: FaFacebook,
+  instagram: FaInstagram,
+  soundcloud: FaSoundcloud,
+  spotify: FaSpotify,
+  tiktok: FaTiktok,
+  twitter: FaXTwitter,
+  x: FaXTwitter,
+  youtube: FaYoutube,
+};
+
+const getIcon = (name: string): IconType => {
+  const key = name.toLowerCase().replace(/[^a-z]/g, '');
+  const match = Object.keys(ICONS).find(
+    (icon) => key === icon || (icon.length > 1 && key.includes(icon))
+  );
+  return match ? ICONS[match]! : FaLink;
+};
+
+interface SocialLinksBarProps {
+  socials: Social[];
+}
+
+const SocialLinksBar: React.FC<SocialLinksBarProps> = ({ socials }) => {
+  if (!socials.length) return null;
+
+  return (
+    <Box display="flex" justifyContent="center" flexWrap="wrap" gap={1}>
+      {socials.map((social) => {
+        const Icon = getIcon(social.name);
+        return (
+          <Tooltip key={social.id} title={social.description || social.name}>
+            <IconButton
+              component="a"
+              href={social.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label={social.name}
+              color="primary"
+              size="large"
+            >
+              <Icon />
+            </IconButton>
+          </Tooltip>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default SocialLinksBar;
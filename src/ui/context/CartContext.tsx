@@ -0,0 +1,116 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Cart } from '../interfaces/cart';
+import { useNotification } from './NotificationProvider.tsx';
+import { useI18n } from './I18nContext.tsx';
+
+interface CartContextType {
+  cart: Cart | null;
+  enabled: boolean;
+  busy: boolean;
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  addItem: (variantId: string, quantity?: number) => Promise<void>;
+  updateQuantity: (lineId: string, quantity: number) => Promise<void>;
+  removeLine: (lineId: string) => Promise<void>;
+}
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+// The cart id lives in an httpOnly cookie set by the backend, so every call
+// here simply targets the current cart for this shop
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { setNotification } = useNotification();
+  const { t } = useI18n();
+  const [cart, setCart] = useState<Cart | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchCart = async () => {
+      try {
+        const response = await axios.get<Cart | null>('/cart');
+        setCart(response.data);
+        setEnabled(true);
+      } catch (error) {
+        // 404 means the shop has no Storefront credentials configured
+        if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+          console.error('Failed to fetch cart:', error);
+        }
+        setEnabled(false);
+      }
+    };
+
+    fetchCart();
+  }, []);
+
+  const updateCart = async (request: () => Promise<{ data: Cart }>) => {
+    setBusy(true);
+    try {
+      const response = await request();
+      setCart(response.data);
+      return true;
+    } catch (error) {
+      console.error('Cart update failed:', error);
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error
+        : undefined;
+      setNotification(message || t('cart.updateFailed'), 'error');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addItem = async (variantId: string, quantity = 1) => {
+    const added = await updateCart(() =>
+      axios.post<Cart>('/cart/lines', { variantId, quantity })
+    );
+    if (added) {
+      setNotification(t('cart.added'), 'success');
+      setOpen(true);
+    }
+  };
+
+  const updateQuantity = async (lineId: string, quantity: number) => {
+    await updateCart(() =>
+      axios.patch<Cart>(`/cart/lines/${encodeURIComponent(lineId)}`, {
+        quantity,
+      })
+    );
+  };
+
+  const removeLine = async (lineId: string) => {
+    await updateCart(() =>
+      axios.delete<Cart>(`/cart/lines/${encodeURIComponent(lineId)}`)
+    );
+  };
+
+  return (
+    <CartContext.Provider
+      value={{
+        cart,
+        enabled,
+        busy,
+        open,
+        setOpen,
+        addItem,
+        updateQuantity,
+        removeLine,
+      }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
+
+export const useCart = (): CartContextType => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+};
@@ -0,0 +1,118 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import axios from 'axios';
+import Cookies from 'js-cookie';
+import { Money } from '../interfaces/cart';
+import { CurrencyRates } from '../interfaces/currency';
+import { Variant } from '../interfaces/shop';
+import * as price from '../utils/price';
+import { useI18n } from './I18nContext.tsx';
+import { useShop } from './ShopContext.tsx';
+
+const CURRENCY_COOKIE = 'display_currency';
+
+interface CurrencyContextType {
+  locale?: string;
+  shopCurrency?: string;
+  currencies: string[];
+  displayCurrency: string;
+  setDisplayCurrency: (currency: string) => void;
+  formatPrice: (amount: number, currency: string) => string;
+  formatPriceRange: (variants: Variant[]) => string;
+  formatMoney: (money: Money) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(
+  undefined
+);
+
+export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { language } = useI18n();
+  const { shop } = useShop();
+  const shopLocale = shop?.locale;
+  const shopCurrency = shop?.currency;
+  const [rates, setRates] = useState<CurrencyRates | null>(null);
+  const [displayCurrency, setDisplayCurrencyState] = useState(
+    () => Cookies.get(CURRENCY_COOKIE) || ''
+  );
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      try {
+        const response = await axios.get<CurrencyRates | null>('/currencies');
+        setRates(response.data);
+      } catch (err) {
+        console.error('Error fetching currency rates:', err);
+      }
+    };
+
+    fetchRates();
+  }, []);
+
+  // Keep the shop's regional formats unless the visitor reads another language
+  const locale = shopLocale?.split('-')[0] === language ? shopLocale : language;
+
+  const setDisplayCurrency = (currency: string) => {
+    if (currency) Cookies.set(CURRENCY_COOKIE, currency, { expires: 365 });
+    else Cookies.remove(CURRENCY_COOKIE);
+    setDisplayCurrencyState(currency);
+  };
+
+  // Converted prices are only an estimate; checkout uses the shop's currency
+  const approximate = (amount: number, currency: string) => {
+    if (!rates || !displayCurrency || displayCurrency === currency) return '';
+    const converted = price.convertPrice(
+      amount,
+      currency,
+      displayCurrency,
+      rates
+    );
+    return converted === undefined
+      ? ''
+      : `≈ ${price.formatPrice(converted, displayCurrency, locale)}`;
+  };
+
+  const formatPrice = (amount: number, currency: string) => {
+    const estimate = approximate(amount, currency);
+    const formatted = price.formatPrice(amount, currency, locale);
+    return estimate ? `${formatted} (${estimate})` : formatted;
+  };
+
+  const formatPriceRange = (variants: Variant[]) => {
+    if (!variants.length) return '';
+    const formatted = price.formatPriceRange(variants, locale);
+    const estimate = approximate(
+      Math.min(...variants.map((v) => v.price)),
+      variants[0].currency
+    );
+    return estimate ? `${formatted} (${estimate})` : formatted;
+  };
+
+  const formatMoney = (money: Money) => price.formatMoney(money, locale);
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        locale,
+        shopCurrency,
+        currencies: rates ? Object.keys(rates.rates).sort() : [],
+        displayCurrency,
+        setDisplayCurrency,
+        formatPrice,
+        formatPriceRange,
+        formatMoney,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+export const useCurrency = (): CurrencyContextType => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
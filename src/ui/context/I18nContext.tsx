@@ -0,0 +1,93 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import axios from 'axios';
+import Cookies from 'js-cookie';
+import { Translations } from '../interfaces/i18n';
+
+// Read by the server too, so rendered pages match the selected language
+const LANGUAGE_COOKIE = 'lang';
+
+type TranslationParams = Record<string, string | number>;
+
+interface I18nContextType {
+  language: string;
+  supportedLanguages: string[];
+  setLanguage: (language: string) => void;
+  t: (key: string, params?: TranslationParams) => string;
+  tp: (baseKey: string, count: number, params?: TranslationParams) => string;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [translations, setTranslations] = useState<Translations | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [requested, setRequested] = useState(
+    () => new URLSearchParams(window.location.search).get('lang') || ''
+  );
+
+  useEffect(() => {
+    const fetchTranslations = async () => {
+      try {
+        const response = await axios.get<Translations>('/translations', {
+          params: { lang: requested || undefined },
+        });
+        setTranslations(response.data);
+        document.documentElement.lang = response.data.language;
+      } catch (err) {
+        console.error('Error fetching translations:', err);
+      }
+      setLoaded(true);
+    };
+
+    fetchTranslations();
+  }, [requested]);
+
+  const setLanguage = (language: string) => {
+    Cookies.set(LANGUAGE_COOKIE, language, { expires: 365 });
+    setRequested(language);
+  };
+
+  const language = translations?.language || 'en';
+
+  // Missing keys render as the key itself so gaps are easy to spot
+  const t = (key: string, params: TranslationParams = {}) =>
+    (translations?.messages[key] ?? key).replace(
+      /\{(\w+)\}/g,
+      (match, name: string) => (name in params ? String(params[name]) : match)
+    );
+
+  const tp = (baseKey: string, count: number, params?: TranslationParams) => {
+    const key = `${baseKey}.${new Intl.PluralRules(language).select(count)}`;
+    return t(translations?.messages[key] ? key : `${baseKey}.other`, {
+      count,
+      ...params,
+    });
+  };
+
+  // Avoid flashing untranslated keys before the catalog arrives
+  if (!loaded) return null;
+
+  return (
+    <I18nContext.Provider
+      value={{
+        language,
+        supportedLanguages: translations?.supportedLanguages || [language],
+        setLanguage,
+        t,
+        tp,
+      }}
+    >
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextType => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+};
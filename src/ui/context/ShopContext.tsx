@@ -1,8 +1,17 @@
-import React, { createContext, useContext } from 'react';
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
 import axios from 'axios';
 import { Shop } from '../interfaces/shop';
 
 interface ShopContextType {
+  shop: Shop | null;
+  loading: boolean;
   getShopInfo: () => Promise<Shop | null>;
 }
 
@@ -11,18 +20,33 @@ const ShopContext = createContext<ShopContextType | undefined>(undefined);
 export const ShopProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
-  const getShopInfo = async (): Promise<Shop | null> => {
-    try {
-      const response = await axios.get<Shop>('/info');
-      return response.data;
-    } catch (error) {
-      console.error('Failed to fetch or decrypt shop info:', error);
-      return null;
+  const [shop, setShop] = useState<Shop | null>(null);
+  const [loading, setLoading] = useState(true);
+  // One /info request per page load, shared by every consumer
+  const request = useRef<Promise<Shop | null> | null>(null);
+
+  const getShopInfo = useCallback((): Promise<Shop | null> => {
+    if (!request.current) {
+      request.current = axios
+        .get<Shop>('/info')
+        .then((response) => response.data)
+        .catch((error) => {
+          console.error('Failed to fetch or decrypt shop info:', error);
+          return null;
+        });
     }
-  };
+    return request.current;
+  }, []);
+
+  useEffect(() => {
+    getShopInfo().then((info) => {
+      setShop(info);
+      setLoading(false);
+    });
+  }, [getShopInfo]);
 
   return (
-    <ShopContext.Provider value={{ getShopInfo }}>
+    <ShopContext.Provider value={{ shop, loading, getShopInfo }}>
       {children}
     </ShopContext.Provider>
   );
@@ -0,0 +1,97 @@
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
+import CssBaseline from '@mui/material/CssBaseline';
+import GlobalStyles from '@mui/material/GlobalStyles';
+import { alpha, createTheme, ThemeProvider } from '@mui/material/styles';
+import { ShopTheme } from '../interfaces/shop';
+import { useShop } from './ShopContext.tsx';
+
+interface ShopThemeContextType {
+  shopTheme: ShopTheme;
+  shopName?: string;
+  logoUrl?: string;
+}
+
+// Mirrors the backend default, used until /info loads or when it fails
+const DEFAULT_SHOP_THEME: ShopTheme = {
+  mode: 'light',
+  primaryColor: '#1976d2',
+  secondaryColor: '#9c27b0',
+  footerColor: '#000000',
+  fontFamily: "'Roboto', sans-serif",
+  logoPlacement: 'none',
+};
+
+const buildTheme = (shopTheme: ShopTheme) => {
+  const headings = shopTheme.headingFontFamily
+    ? Object.fromEntries(
+        ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map((variant) => [
+          variant,
+          { fontFamily: shopTheme.headingFontFamily },
+        ])
+      )
+    : {};
+
+  return createTheme({
+    palette: {
+      mode: shopTheme.mode,
+      primary: { main: shopTheme.primaryColor },
+      secondary: { main: shopTheme.secondaryColor },
+    },
+    typography: { fontFamily: shopTheme.fontFamily, ...headings },
+  });
+};
+
+const ShopThemeContext = createContext<ShopThemeContextType | undefined>(
+  undefined
+);
+
+export const ShopThemeProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { shop } = useShop();
+
+  const shopTheme = shop?.theme ?? DEFAULT_SHOP_THEME;
+  const theme = useMemo(() => buildTheme(shopTheme), [shopTheme]);
+
+  // 🔤 Load the shop's web fonts once
+  useEffect(() => {
+    if (!shopTheme.fontStylesheetUrl) return;
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = shopTheme.fontStylesheetUrl;
+    document.head.appendChild(link);
+    return () => link.remove();
+  }, [shopTheme.fontStylesheetUrl]);
+
+  return (
+    <ShopThemeContext.Provider
+      value={{ shopTheme, shopName: shop?.name, logoUrl: shop?.logoUrl }}
+    >
+      <ThemeProvider theme={theme}>
+        <CssBaseline />
+        <GlobalStyles
+          styles={{
+            '*': {
+              scrollbarColor: `${theme.palette.primary.main} ${theme.palette.background.default}`,
+            },
+            '*::-webkit-scrollbar-thumb': {
+              backgroundColor: alpha(theme.palette.primary.main, 0.7),
+            },
+            '*::-webkit-scrollbar-track': {
+              backgroundColor: theme.palette.background.default,
+            },
+          }}
+        />
+        {children}
+      </ThemeProvider>
+    </ShopThemeContext.Provider>
+  );
+};
+
+export const useShopTheme = (): ShopThemeContextType => {
+  const context = useContext(ShopThemeContext);
+  if (!context) {
+    throw new Error('useShopTheme must be used within a ShopThemeProvider');
+  }
+  return context;
+};
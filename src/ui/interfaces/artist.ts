@@ -0,0 +1,35 @@
+export interface Social {
+  id: string;
+  name: string;
+  description?: string;
+  url: string;
+}
+
+export interface LatestYouTubeRelease {
+  videoId: string;
+  title: string;
+  viewCount: number;
+  publishedAt: string;
+  thumbnailUrl: string;
+}
+
+export interface LatestSpotifyRelease {
+  name: string;
+  spotifyUrl: string;
+  imageUrl: string | null;
+}
+
+export interface LatestReleases {
+  youtube: LatestYouTubeRelease | null;
+  spotify: LatestSpotifyRelease | null;
+}
+
+export interface ArtistProfile {
+  id: string;
+  name: string;
+  type: string;
+  website?: string;
+  bio?: string;
+  avatarUrl?: string;
+  logoUrl?: string;
+}
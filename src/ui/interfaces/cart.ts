@@ -0,0 +1,24 @@
+export interface Money {
+  amount: number;
+  currencyCode: string;
+}
+
+export interface CartLine {
+  id: string;
+  quantity: number;
+  merchandiseId: string;
+  title: string;
+  variantTitle: string;
+  image?: string;
+  price: Money;
+  total: Money;
+}
+
+export interface Cart {
+  id: string;
+  checkoutUrl: string;
+  totalQuantity: number;
+  subtotal: Money;
+  total: Money;
+  lines: CartLine[];
+}
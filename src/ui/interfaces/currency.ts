@@ -0,0 +1,5 @@
+export interface CurrencyRates {
+  base: string;
+  rates: Record<string, number>;
+  updatedAt: string;
+}
@@ -0,0 +1,5 @@
+export interface Translations {
+  language: string;
+  supportedLanguages: string[];
+  messages: Record<string, string>;
+}
@@ -1,3 +1,18 @@
+export type ThemeMode = 'light' | 'dark';
+
+export type LogoPlacement = 'none' | 'header' | 'banner';
+
+export interface ShopTheme {
+  mode: ThemeMode;
+  primaryColor: string;
+  secondaryColor: string;
+  footerColor: string;
+  fontFamily: string;
+  headingFontFamily?: string;
+  fontStylesheetUrl?: string;
+  logoPlacement: LogoPlacement;
+}
+
 export interface Shop {
   id: string;
   artistId: string;
@@ -5,6 +20,12 @@ export interface Shop {
   website: string;
   hasImage: boolean;
   shopFeed: string;
+  currency: string;
+  locale: string;
+  theme: ShopTheme;
+  imageUrl?: string;
+  logoUrl?: string;
+  cartEnabled?: boolean;
 }
 
 export interface Variant {
@@ -12,12 +33,26 @@ export interface Variant {
   title: string;
   link: string;
   price: number;
+  currency: string;
   image: string;
+  availability?: string;
 }
 
 export interface Product {
   groupId: string;
   title: string;
+  description?: string;
   productType: string;
+  firstSeenAt?: string;
   variants: Variant[];
 }
+
+export interface Category {
+  slug: string;
+  name: string;
+  productCount: number;
+}
+
+export interface CategoryDetails extends Category {
+  products: Product[];
+}
@@ -1,6 +1,10 @@
 import React from 'react';
 import { Box } from '@mui/material';
 import CopyrightBanner from '../components/CopyrightBanner.tsx';
+import CartDrawer from '../components/CartDrawer.tsx';
+import CurrencySelector from '../components/CurrencySelector.tsx';
+import LanguageSelector from '../components/LanguageSelector.tsx';
+import HeaderLogo from '../components/HeaderLogo.tsx';
 
 const MainLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return (
@@ -11,6 +15,7 @@ const MainLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
         flexDirection: 'column',
       }}
     >
+      <HeaderLogo />
       <Box
         sx={{
           display: 'flex',
@@ -23,7 +28,12 @@ const MainLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
         {children}
       </Box>
 
+      <Box display="flex" justifyContent="center" flexWrap="wrap" columnGap={4}>
+        <LanguageSelector />
+        <CurrencySelector />
+      </Box>
       <CopyrightBanner />
+      <CartDrawer />
     </Box>
   );
 };
@@ -3,13 +3,22 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import { NotificationProvider } from './context/NotificationProvider.tsx';
 import { ShopProvider } from './context/ShopContext.tsx';
+import { CartProvider } from './context/CartContext.tsx';
+import { CurrencyProvider } from './context/CurrencyContext.tsx';
+import { I18nProvider } from './context/I18nContext.tsx';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <NotificationProvider>
-      <ShopProvider>
-        <App />
-      </ShopProvider>
-    </NotificationProvider>
+    <I18nProvider>
+      <NotificationProvider>
+        <ShopProvider>
+          <CurrencyProvider>
+            <CartProvider>
+              <App />
+            </CartProvider>
+          </CurrencyProvider>
+        </ShopProvider>
+      </NotificationProvider>
+    </I18nProvider>
   </StrictMode>
 );
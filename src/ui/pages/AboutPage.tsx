@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Avatar,
+  Box,
+  Button,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+import { Link as RouterLink } from 'react-router-dom';
+import NotFoundPage from './NotFoundPage.tsx';
+import SocialLinksBar from '../components/SocialLinksBar';
+import { ArtistProfile, Social } from '../interfaces/artist';
+import { useI18n } from '../context/I18nContext.tsx';
+
+// Blank lines separate paragraphs; single line breaks are kept inside them
+const toParagraphs = (bio: string): string[] =>
+  bio
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+// Websites are stored with or without a scheme; invalid ones aren't linked
+const toWebsiteUrl = (website: string): string | undefined => {
+  try {
+    return new URL(
+      /^https?:\/\//i.test(website) ? website : `https://${website}`
+    ).href;
+  } catch {
+    return undefined;
+  }
+};
+
+const AboutPage: React.FC = () => {
+  const [artist, setArtist] = useState<ArtistProfile | null>(null);
+  const [socials, setSocials] = useState<Social[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const fetchArtist = async () => {
+      try {
+        const [artistRes, socialsRes] = await Promise.all([
+          axios.get<ArtistProfile>('/artist'),
+          axios.get<Social[]>('/socials'),
+        ]);
+        setArtist(artistRes.data);
+        setSocials(socialsRes.data);
+      } catch (err) {
+        console.error('Error fetching artist:', err);
+      }
+      setLoading(false);
+    };
+
+    fetchArtist();
+  }, []);
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" mt={6}>
+        <CircularProgress size={50} />
+      </Box>
+    );
+  }
+
+  if (!artist) return <NotFoundPage />;
+
+  const websiteUrl = artist.website && toWebsiteUrl(artist.website);
+  const paragraphs = toParagraphs(artist.bio || '');
+
+  return (
+    <Box
+      sx={{
+        width: '100%',
+        maxWidth: 800,
+        px: { xs: 2, sm: 4 },
+        py: 6,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: 3,
+      }}
+    >
+      <Button
+        component={RouterLink}
+        to="/"
+        sx={{ alignSelf: 'flex-start', px: 0 }}
+      >
+        {t('common.backToShop')}
+      </Button>
+
+      {/* 🧑‍🎤 Avatar */}
+      {artist.avatarUrl && (
+        <Avatar
+          src={artist.avatarUrl}
+          alt={artist.name}
+          sx={{ width: 160, height: 160, boxShadow: 4 }}
+        />
+      )}
+
+      {/* 🏷️ Logo or name */}
+      {artist.logoUrl ? (
+        <Box
+          component="img"
+          src={artist.logoUrl}
+          alt={t('about.logoAlt', { name: artist.name })}
+          sx={{ maxWidth: 320, maxHeight: 120, objectFit: 'contain' }}
+        />
+      ) : (
+        <Typography variant="h3" fontWeight="bold" textAlign="center">
+          {artist.name}
+        </Typography>
+      )}
+
+      {/* 📖 Bio */}
+      <Box width="100%">
+        {paragraphs.length ? (
+          paragraphs.map((paragraph, index) => (
+            <Typography
+              key={index}
+              variant="body1"
+              color="text.secondary"
+              paragraph
+              sx={{ whiteSpace: 'pre-line', lineHeight: 1.8 }}
+            >
+              {paragraph}
+            </Typography>
+          ))
+        ) : (
+          <Typography variant="body1" color="text.secondary" textAlign="center">
+            {t('about.comingSoon', { name: artist.name })}
+          </Typography>
+        )}
+      </Box>
+
+      {websiteUrl && (
+        <Button
+          variant="outlined"
+          href={websiteUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {t('about.visitWebsite', { website: artist.website })}
+        </Button>
+      )}
+
+      <SocialLinksBar socials={socials} />
+    </Box>
+  );
+};
+
+export default AboutPage;
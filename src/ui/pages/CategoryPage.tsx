@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, CircularProgress, Typography } from '@mui/material';
+import axios from 'axios';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import NotFoundPage from './NotFoundPage.tsx';
+import CategoryNav from '../components/CategoryNav';
+import ProductGrid from '../components/ProductGrid';
+import { CategoryDetails } from '../interfaces/shop';
+import { useI18n } from '../context/I18nContext.tsx';
+
+const CategoryPage: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const [category, setCategory] = useState<CategoryDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { t, tp } = useI18n();
+
+  useEffect(() => {
+    const fetchCategory = async () => {
+      setLoading(true);
+      try {
+        const response = await axios.get<CategoryDetails>(
+          `/categories/${encodeURIComponent(slug)}`
+        );
+        setCategory(response.data);
+      } catch (err) {
+        console.error('Error fetching category:', err);
+        setCategory(null);
+      }
+      setLoading(false);
+    };
+
+    fetchCategory();
+  }, [slug]);
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" mt={6}>
+        <CircularProgress size={50} />
+      </Box>
+    );
+  }
+
+  if (!category) return <NotFoundPage />;
+
+  return (
+    <Box width="100%" maxWidth={1400} py={6}>
+      <Box px={4} mb={2}>
+        <Button component={RouterLink} to="/" sx={{ px: 0 }}>
+          {t('common.backToShop')}
+        </Button>
+      </Box>
+
+      <Box textAlign="center" mb={3}>
+        <Typography variant="h4" fontWeight="bold" color="primary">
+          {category.name}
+        </Typography>
+        <Typography variant="h6" color="text.secondary" sx={{ mt: 0.5 }}>
+          {tp('category.count', category.productCount)}
+        </Typography>
+      </Box>
+
+      <CategoryNav activeSlug={category.slug} />
+      <ProductGrid products={category.products} />
+    </Box>
+  );
+};
+
+export default CategoryPage;
@@ -1,83 +1,70 @@
-import React, { useEffect, useState } from 'react';
-import {
-  Box,
-  CircularProgress,
-  Typography,
-  Card,
-  CardActionArea,
-  CardContent,
-  CardMedia,
-} from '@mui/material';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Button, CircularProgress, Typography } from '@mui/material';
 import axios from 'axios';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
 import Banner from '../components/Banner';
-import { Product, Shop } from '../interfaces/shop';
+import ProductFilters from '../components/ProductFilters';
+import ProductGrid from '../components/ProductGrid';
+import CategoryNav from '../components/CategoryNav';
+import LatestReleasesSection from '../components/LatestReleasesSection';
+import { useI18n } from '../context/I18nContext.tsx';
+import { useShopTheme } from '../context/ShopThemeContext.tsx';
+import { useShop } from '../context/ShopContext.tsx';
+import { Product } from '../interfaces/shop';
+import {
+  applyProductQuery,
+  createProductSearch,
+  minVariantPrice,
+  parseProductQuery,
+  ProductQuery,
+  toSearchParams,
+} from '../utils/product-query';
 
 const HomePage: React.FC = () => {
-  const [shop, setShop] = useState<Shop | null>(null);
+  const { shop } = useShop();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { t } = useI18n();
+  const { shopTheme, logoUrl } = useShopTheme();
+
+  // 🔎 Search, filter and sort state lives in the URL so views can be shared
+  const query = useMemo(() => parseProductQuery(searchParams), [searchParams]);
+  const setQuery = useCallback(
+    (next: ProductQuery) => setSearchParams(toSearchParams(next)),
+    [setSearchParams]
+  );
 
-  const API_URL = import.meta.env.VITE_API_URL;
+  const productSearch = useMemo(
+    () => createProductSearch(products),
+    [products]
+  );
+  const visibleProducts = useMemo(
+    () => applyProductQuery(products, productSearch, query),
+    [products, productSearch, query]
+  );
+  const productTypes = useMemo(
+    () =>
+      [...new Set(products.map((p) => p.productType))].filter(Boolean).sort(),
+    [products]
+  );
+  const priceBounds = useMemo((): [number, number] => {
+    const prices = products
+      .filter((p) => p.variants.length)
+      .map(minVariantPrice);
+    return prices.length
+      ? [Math.floor(Math.min(...prices)), Math.ceil(Math.max(...prices))]
+      : [0, 0];
+  }, [products]);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        // 1️⃣ Get shop info
-        const response = await axios.get<Shop>('/info');
-        console.log('Shop info:', response.data);
-        setShop(response.data);
-
-        // 2️⃣ Fetch XML feed
-        const feedRes = await axios.get<string>(response.data.shopFeed, {
-          responseType: 'text',
-        });
-        const parser = new DOMParser();
-        const xmlDoc = parser.parseFromString(feedRes.data, 'application/xml');
-
-        // 3️⃣ Extract items
-        const items = Array.from(xmlDoc.getElementsByTagName('item'));
-        const grouped: Record<string, Product> = {};
-
-        items.forEach((item) => {
-          const id = item.getElementsByTagName('g:id')[0]?.textContent || '';
-          const title =
-            item.getElementsByTagName('g:title')[0]?.textContent || '';
-          const link =
-            item.getElementsByTagName('g:link')[0]?.textContent || '';
-          const priceStr =
-            item.getElementsByTagName('g:price')[0]?.textContent || '0';
-          const price = parseFloat(priceStr.replace(/[^0-9.]/g, '')) || 0;
-          const image =
-            item.getElementsByTagName('g:additional_image_link')[0]
-              ?.textContent || '';
-          const groupId =
-            item.getElementsByTagName('g:item_group_id')[0]?.textContent || id;
-          const productType =
-            item.getElementsByTagName('g:product_type')[0]?.textContent ||
-            'Other';
-
-          if (!grouped[groupId]) {
-            grouped[groupId] = {
-              groupId,
-              title,
-              productType,
-              variants: [],
-            };
-          }
-
-          grouped[groupId].variants.push({
-            id,
-            title,
-            link,
-            price,
-            image,
-          });
-        });
-
-        // Convert grouped products to a flat array
-        setProducts(Object.values(grouped));
+        // Get products synced from the shop feed
+        const productsRes = await axios.get<Product[]>('/products');
+        setProducts(productsRes.data);
       } catch (err) {
-        console.error('Error fetching feed:', err);
+        console.error('Error fetching products:', err);
       }
       setLoading(false);
     };
@@ -90,23 +77,26 @@ const HomePage: React.FC = () => {
       {/* 🎸 Banner */}
       {shop && (
         <Banner
-          imageUrl={
-            shop && shop.hasImage ? `${API_URL}/shops/${shop.id}/photo` : ''
-          }
-          mainTitle={`${shop.name} Shop`}
-          subTitle="Find exclusive artist merchandise and support your favorite music!"
+          imageUrl={shop.imageUrl || ''}
+          mainTitle={t('home.bannerTitle', { shop: shop.name })}
+          subTitle={t('home.bannerSubtitle')}
+          logoUrl={shopTheme.logoPlacement === 'banner' ? logoUrl : undefined}
         />
       )}
 
       {/* 🛍️ Products Section */}
       <Box textAlign="center" mt={4} mb={3}>
         <Typography variant="h4" fontWeight="bold" color="primary">
-          Products
+          {t('home.productsTitle')}
         </Typography>
         <Typography variant="h6" color="text.secondary" sx={{ mt: 0.5 }}>
-          Explore our exclusive collection from{' '}
-          {shop?.name || 'your favorite artist'}
+          {t('home.productsSubtitle', {
+            shop: shop?.name || t('home.favoriteArtist'),
+          })}
         </Typography>
+        <Button component={RouterLink} to="/about" sx={{ mt: 1 }}>
+          {t('home.aboutLink')}
+        </Button>
       </Box>
 
       {/* ⏳ Loading Spinner */}
@@ -116,97 +106,30 @@ const HomePage: React.FC = () => {
         </Box>
       )}
 
-      {/* 🛒 Product Grid */}
-      {/* 🛒 Product Grid */}
-      {!loading && (
-        <Box
-          display="grid"
-          gridTemplateColumns="repeat(auto-fill, minmax(260px, 1fr))"
-          gap={3}
-          px={4}
-          pb={6}
-          justifyContent="center"
-        >
-          {products.map((p) => {
-            const minPrice = Math.min(...p.variants.map((v) => v.price));
-            const maxPrice = Math.max(...p.variants.map((v) => v.price));
-            const displayPrice =
-              minPrice === maxPrice
-                ? `$${minPrice.toFixed(2)}`
-                : `$${minPrice.toFixed(2)} - $${maxPrice.toFixed(2)}`;
+      {/* 🗂️ Categories */}
+      <CategoryNav />
 
-            const coverImage = p.variants[0]?.image || '/placeholder.jpg';
-            const link = p.variants[0]?.link || '#';
+      {/* 🎛️ Filters */}
+      {!loading && products.length > 0 && (
+        <ProductFilters
+          query={query}
+          productTypes={productTypes}
+          priceBounds={priceBounds}
+          onChange={setQuery}
+        />
+      )}
 
-            return (
-              <Card
-                key={p.groupId}
-                sx={{
-                  borderRadius: 3,
-                  boxShadow: 4,
-                  overflow: 'hidden',
-                  display: 'flex',
-                  flexDirection: 'column',
-                  transition: 'transform 0.25s ease, box-shadow 0.25s ease',
-                  '&:hover': {
-                    transform: 'translateY(-6px)',
-                    boxShadow: 8,
-                  },
-                }}
-              >
-                <CardActionArea
-                  href={link}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  sx={{
-                    display: 'flex',
-                    flexDirection: 'column',
-                    height: '100%',
-                  }}
-                >
-                  <CardMedia
-                    component="img"
-                    height="300"
-                    image={coverImage}
-                    alt={p.title}
-                    sx={{
-                      objectFit: 'cover',
-                      width: '100%',
-                      transition: 'transform 0.3s ease',
-                      '&:hover': { transform: 'scale(1.05)' },
-                    }}
-                  />
-                  <CardContent
-                    sx={{
-                      textAlign: 'center',
-                      flexGrow: 1,
-                      p: 2,
-                      bgcolor: '#fafafa',
-                    }}
-                  >
-                    <Typography
-                      variant="subtitle1"
-                      fontWeight="bold"
-                      gutterBottom
-                      noWrap
-                      title={p.title}
-                    >
-                      {p.title}
-                    </Typography>
-                    <Typography
-                      color="primary"
-                      variant="body1"
-                      fontWeight={600}
-                    >
-                      {displayPrice}
-                    </Typography>
-                  </CardContent>
-                </CardActionArea>
-              </Card>
-            );
-          })}
-        </Box>
+      {!loading && products.length > 0 && !visibleProducts.length && (
+        <Typography textAlign="center" color="text.secondary" mb={6}>
+          {t('home.noMatches')}
+        </Typography>
       )}
+
+      {/* 🛒 Product Grid */}
+      {!loading && <ProductGrid products={visibleProducts} />}
+
+      {/* 🎵 Latest Music */}
+      <LatestReleasesSection />
     </Box>
   );
 };
@@ -1,9 +1,11 @@
 import React from 'react';
 import { Box, Button, Typography } from '@mui/material';
 import { useNavigate } from 'react-router-dom';
+import { useI18n } from '../context/I18nContext.tsx';
 
 const NotFoundPage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useI18n();
 
   return (
     <Box
@@ -23,22 +25,21 @@ const NotFoundPage: React.FC = () => {
         sx={{
           fontSize: { xs: '1.5rem', sm: '2.5rem' },
           fontWeight: 'bold',
-          color: 'black',
+          color: 'text.primary',
         }}
       >
-        Oops! Page Not Found
+        {t('notFound.title')}
       </Typography>
       <Typography
         variant="body1"
         sx={{
-          color: 'gray',
+          color: 'text.secondary',
           fontSize: { xs: '1rem', sm: '1.5rem' },
           marginBottom: 4,
           maxWidth: '600px',
         }}
       >
-        Sorry, the page you’re looking for doesn’t exist. It might have been
-        removed or you may have mistyped the URL.
+        {t('notFound.message')}
       </Typography>
       <Button
         variant="contained"
@@ -49,7 +50,7 @@ const NotFoundPage: React.FC = () => {
           padding: { xs: '0.6rem 1.5rem', sm: '0.8rem 2rem' },
         }}
       >
-        Go Home
+        {t('notFound.home')}
       </Button>
     </Box>
   );
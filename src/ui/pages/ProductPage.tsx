@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import NotFoundPage from './NotFoundPage.tsx';
+import { Product } from '../interfaces/shop';
+import { useCurrency } from '../context/CurrencyContext.tsx';
+import { isAvailable } from '../utils/availability';
+import { useCart } from '../context/CartContext.tsx';
+import { useI18n } from '../context/I18nContext.tsx';
+
+const ProductPage: React.FC = () => {
+  const { groupId = '' } = useParams<{ groupId: string }>();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const { enabled: cartEnabled, busy, addItem } = useCart();
+  const { formatPrice } = useCurrency();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const fetchProduct = async () => {
+      setLoading(true);
+      try {
+        const response = await axios.get<Product>(
+          `/products/${encodeURIComponent(groupId)}`
+        );
+        setProduct(response.data);
+        setSelectedId(response.data.variants[0]?.id || '');
+      } catch (err) {
+        console.error('Error fetching product:', err);
+        setProduct(null);
+      }
+      setLoading(false);
+    };
+
+    fetchProduct();
+  }, [groupId]);
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" mt={6}>
+        <CircularProgress size={50} />
+      </Box>
+    );
+  }
+
+  if (!product) return <NotFoundPage />;
+
+  const variant =
+    product.variants.find((v) => v.id === selectedId) || product.variants[0];
+  const image =
+    variant?.image ||
+    product.variants.find((v) => v.image)?.image ||
+    '/placeholder.jpg';
+  const inStock = !!variant && isAvailable(variant);
+
+  return (
+    <Box
+      sx={{
+        width: '100%',
+        maxWidth: 1100,
+        px: { xs: 2, sm: 4 },
+        py: 6,
+        display: 'grid',
+        gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+        gap: 4,
+      }}
+    >
+      {/* 🖼 Variant image */}
+      <Box
+        component="img"
+        src={image}
+        alt={variant?.title || product.title}
+        sx={{
+          width: '100%',
+          borderRadius: 3,
+          boxShadow: 4,
+          objectFit: 'cover',
+        }}
+      />
+
+      {/* 📝 Product details */}
+      <Box display="flex" flexDirection="column" gap={2}>
+        <Button
+          component={RouterLink}
+          to="/"
+          sx={{ alignSelf: 'flex-start', px: 0 }}
+        >
+          {t('common.backToShop')}
+        </Button>
+
+        <Typography variant="h4" fontWeight="bold">
+          {product.title}
+        </Typography>
+
+        <Chip label={product.productType} sx={{ alignSelf: 'flex-start' }} />
+
+        {variant && (
+          <Typography variant="h5" color="primary" fontWeight={600}>
+            {formatPrice(variant.price, variant.currency)}
+          </Typography>
+        )}
+
+        {product.variants.length > 1 && (
+          <ToggleButtonGroup
+            exclusive
+            value={variant?.id}
+            onChange={(_, value: string | null) =>
+              value && setSelectedId(value)
+            }
+            sx={{ flexWrap: 'wrap' }}
+          >
+            {product.variants.map((v) => (
+              <ToggleButton
+                key={v.id}
+                value={v.id}
+                sx={{ textTransform: 'none' }}
+              >
+                {v.title}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        )}
+
+        {product.description && (
+          <Typography
+            variant="body1"
+            color="text.secondary"
+            sx={{ whiteSpace: 'pre-line' }}
+          >
+            {product.description}
+          </Typography>
+        )}
+
+        {cartEnabled ? (
+          <Button
+            variant="contained"
+            size="large"
+            disabled={!variant || !inStock || busy}
+            onClick={() => variant && addItem(variant.id)}
+            sx={{ alignSelf: 'flex-start', mt: 1 }}
+          >
+            {inStock ? t('product.addToCart') : t('product.outOfStock')}
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            size="large"
+            disabled={!variant?.link || !inStock}
+            href={variant?.link || '#'}
+            target="_blank"
+            rel="noopener noreferrer"
+            sx={{ alignSelf: 'flex-start', mt: 1 }}
+          >
+            {inStock ? t('product.buyNow') : t('product.outOfStock')}
+          </Button>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ProductPage;
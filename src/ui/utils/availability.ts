@@ -0,0 +1,5 @@
+import { Variant } from '../interfaces/shop';
+
+// Feeds without an availability value are treated as purchasable
+export const isAvailable = (variant: Variant): boolean =>
+  !variant.availability || variant.availability === 'in stock';
@@ -0,0 +1,51 @@
+import { Money } from '../interfaces/cart';
+import { CurrencyRates } from '../interfaces/currency';
+import { Variant } from '../interfaces/shop';
+
+export const formatPrice = (
+  amount: number,
+  currency = 'USD',
+  locale?: string
+): string => {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes or locales fall back to a plain amount
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+export const formatPriceRange = (
+  variants: Variant[],
+  locale?: string
+): string => {
+  if (!variants.length) return '';
+
+  const currency = variants[0].currency;
+  const minPrice = Math.min(...variants.map((v) => v.price));
+  const maxPrice = Math.max(...variants.map((v) => v.price));
+
+  return minPrice === maxPrice
+    ? formatPrice(minPrice, currency, locale)
+    : `${formatPrice(minPrice, currency, locale)} - ${formatPrice(maxPrice, currency, locale)}`;
+};
+
+export const formatMoney = (
+  { amount, currencyCode }: Money,
+  locale?: string
+): string => formatPrice(amount, currencyCode, locale);
+
+// Rates are units of each currency per one unit of the table's base currency
+export const convertPrice = (
+  amount: number,
+  from: string,
+  to: string,
+  { rates }: CurrencyRates
+): number | undefined => {
+  if (from === to) return amount;
+  if (!rates[from] || !rates[to]) return undefined;
+  return (amount / rates[from]) * rates[to];
+};
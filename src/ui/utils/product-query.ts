@@ -0,0 +1,108 @@
+import Fuse from 'fuse.js';
+import { Product } from '../interfaces/shop';
+
+export type ProductSort =
+  | 'featured'
+  | 'price-asc'
+  | 'price-desc'
+  | 'newest'
+  | 'title';
+
+// Labels are translation keys
+export const SORT_OPTIONS: { value: ProductSort; labelKey: string }[] = [
+  { value: 'featured', labelKey: 'sort.featured' },
+  { value: 'newest', labelKey: 'sort.newest' },
+  { value: 'price-asc', labelKey: 'sort.priceAsc' },
+  { value: 'price-desc', labelKey: 'sort.priceDesc' },
+  { value: 'title', labelKey: 'sort.title' },
+];
+
+export interface ProductQuery {
+  search: string;
+  types: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  sort: ProductSort;
+}
+
+const parsePrice = (value: string | null): number | undefined => {
+  if (value === null || value === '') return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+};
+
+export const parseProductQuery = (params: URLSearchParams): ProductQuery => {
+  const sort = params.get('sort') as ProductSort;
+  return {
+    search: params.get('q') || '',
+    types: params.getAll('type').filter(Boolean),
+    minPrice: parsePrice(params.get('min')),
+    maxPrice: parsePrice(params.get('max')),
+    sort: SORT_OPTIONS.some((o) => o.value === sort) ? sort : 'featured',
+  };
+};
+
+// Defaults are left out so the plain shop URL stays canonical
+export const toSearchParams = (query: ProductQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.search.trim()) params.set('q', query.search.trim());
+  query.types.forEach((type) => params.append('type', type));
+  if (query.minPrice !== undefined) params.set('min', String(query.minPrice));
+  if (query.maxPrice !== undefined) params.set('max', String(query.maxPrice));
+  if (query.sort !== 'featured') params.set('sort', query.sort);
+  return params;
+};
+
+export const minVariantPrice = (product: Product): number =>
+  Math.min(...product.variants.map((v) => v.price));
+
+export const createProductSearch = (products: Product[]): Fuse<Product> =>
+  new Fuse(products, {
+    keys: [
+      { name: 'title', weight: 0.7 },
+      { name: 'productType', weight: 0.3 },
+    ],
+    threshold: 0.35,
+    ignoreLocation: true,
+  });
+
+export const applyProductQuery = (
+  products: Product[],
+  search: Fuse<Product>,
+  { search: term, types, minPrice, maxPrice, sort }: ProductQuery
+): Product[] => {
+  // Fuse results come back ordered by relevance, which "featured" keeps
+  let results = term.trim()
+    ? search.search(term.trim()).map((r) => r.item)
+    : [...products];
+
+  if (types.length) {
+    results = results.filter((p) => types.includes(p.productType));
+  }
+
+  // A product matches the price range if any of its variants does
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    results = results.filter((p) =>
+      p.variants.some(
+        (v) =>
+          (minPrice === undefined || v.price >= minPrice) &&
+          (maxPrice === undefined || v.price <= maxPrice)
+      )
+    );
+  }
+
+  switch (sort) {
+    case 'price-asc':
+      return results.sort((a, b) => minVariantPrice(a) - minVariantPrice(b));
+    case 'price-desc':
+      return results.sort((a, b) => minVariantPrice(b) - minVariantPrice(a));
+    case 'newest':
+      return results.sort((a, b) =>
+        (b.firstSeenAt || '').localeCompare(a.firstSeenAt || '')
+      );
+    case 'title':
+      return results.sort((a, b) => a.title.localeCompare(b.title));
+    default:
+      return results;
+  }
+};